@@ -1,27 +1,39 @@
 const webpack = require('webpack');
-module.exports = function override(config) {
-  const fallback = config.resolve.fallback || {};
-  Object.assign(fallback, {
-    crypto: require.resolve('crypto-browserify'),
-    stream: require.resolve('stream-browserify'),
-    assert: require.resolve('assert'),
-    http: require.resolve('stream-http'),
-    https: require.resolve('https-browserify'),
-    os: require.resolve('os-browserify'),
-    url: require.resolve('url'),
-  });
-  config.resolve.fallback = fallback;
-  config.plugins = (config.plugins || []).concat([
-    new webpack.ProvidePlugin({
-      process: 'process/browser',
-      Buffer: ['buffer', 'Buffer'],
-    }),
-  ]);
-  config.module.rules.push({
-    test: /\.m?js/,
-    resolve: {
-      fullySpecified: false,
-    },
-  });
-  return config;
+module.exports = {
+  webpack: function override(config) {
+    const fallback = config.resolve.fallback || {};
+    Object.assign(fallback, {
+      crypto: require.resolve('crypto-browserify'),
+      stream: require.resolve('stream-browserify'),
+      assert: require.resolve('assert'),
+      http: require.resolve('stream-http'),
+      https: require.resolve('https-browserify'),
+      os: require.resolve('os-browserify'),
+      url: require.resolve('url'),
+    });
+    config.resolve.fallback = fallback;
+    config.plugins = (config.plugins || []).concat([
+      new webpack.ProvidePlugin({
+        process: 'process/browser',
+        Buffer: ['buffer', 'Buffer'],
+      }),
+    ]);
+    config.module.rules.push({
+      test: /\.m?js/,
+      resolve: {
+        fullySpecified: false,
+      },
+    });
+    return config;
+  },
+  // Jest resolves neither the `exports` of @openfort/react nor ES modules in node_modules, so tests run against the sources
+  jest: function override(config) {
+    config.moduleNameMapper = {
+      ...config.moduleNameMapper,
+      '^@openfort/react$': '<rootDir>/../../packages/openfort-react/src/index.ts',
+      '^@openfort/react/testing$': '<rootDir>/../../packages/openfort-react/src/testing.ts',
+    };
+    config.transformIgnorePatterns = ['node_modules/(?!(wagmi|@wagmi|viem|ox|abitype|@noble|@scure|@gemini-wallet/core)/)'];
+    return config;
+  },
 };
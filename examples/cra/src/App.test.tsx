@@ -0,0 +1,18 @@
+import { useUser } from '@openfort/react';
+import { createAuthPlayerResponse, createEmbeddedAccount, createFakeOpenfortClient, MockOpenfortProvider } from '@openfort/react/testing';
+import { renderHook, waitFor } from '@testing-library/react';
+import React from 'react';
+
+test('useUser returns the signed in player of the mock provider', async () => {
+  const user = createAuthPlayerResponse();
+  const account = createEmbeddedAccount({ user: user.id });
+  const client = createFakeOpenfortClient({ user, accounts: [account], activeAccount: account });
+
+  const { result } = renderHook(() => useUser(), {
+    wrapper: ({ children }: { children: React.ReactNode }) => (
+      <MockOpenfortProvider client={client}>{children}</MockOpenfortProvider>
+    ),
+  });
+
+  await waitFor(() => expect(result.current.user?.id).toBe(user.id));
+});
@@ -3,3 +3,8 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+import { TextDecoder, TextEncoder } from 'util';
+import { webcrypto } from 'crypto';
+
+// jsdom lacks the Web Crypto and encoding APIs that the Openfort SDK uses
+Object.assign(globalThis, { crypto: webcrypto, TextEncoder, TextDecoder });
@@ -1,4 +1,6 @@
 import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import { cookieToOpenfortInitialState } from '@openfort/react/server';
 import { type ReactNode } from 'react';
 import '../styles/globals.css';
 
@@ -13,7 +15,9 @@ export default function RootLayout(props: { children: ReactNode }) {
   return (
     <html lang="en">
       <body>
-        <Providers>{props.children}</Providers>
+        <Providers initialState={cookieToOpenfortInitialState(headers().get('cookie'))}>
+          {props.children}
+        </Providers>
       </body>
     </html>
   );
@@ -5,15 +5,17 @@ import { type ReactNode } from 'react';
 import { WagmiProvider } from 'wagmi';
 
 import { config } from '../config';
-import { AuthProvider, OpenfortProvider, RecoveryMethod } from "@openfort/react";
+import { AuthProvider, OpenfortProvider, RecoveryMethod, type OpenfortInitialState } from "@openfort/react";
 
 const queryClient = new QueryClient();
-export function Providers(props: { children: ReactNode }) {
+export function Providers(props: { children: ReactNode; initialState?: OpenfortInitialState }) {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
         <OpenfortProvider
           debugMode
+          ssr
+          initialState={props.initialState}
           publishableKey={process.env.NEXT_PUBLIC_OPENFORT_PUBLIC_KEY!}
 
           // Set the wallet configuration. In this example, we will be using the embedded signer.
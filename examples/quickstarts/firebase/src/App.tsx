@@ -1,24 +1,13 @@
-import { useEffect } from 'react'
 import { Main } from './components/cards/main'
-import { auth } from './lib/firebase'
-import { useSignOut, useUser } from '@openfort/react'
+import { openfortAuthAdapter } from './lib/firebase'
+import { useThirdPartyAuth } from '@openfort/react'
 
 function App() {
-  const { getAccessToken } = useUser();
-  const { signOut } = useSignOut();
-
-  useEffect(() => {
-    auth.onAuthStateChanged(user => {
-      console.log("onAuthStateChanged");
-      if (user) {
-        console.log("onAuthStateChanged - User is signed in:", user);
-        getAccessToken();
-      } else {
-        console.log("onAuthStateChanged - No user is signed in");
-        signOut();
-      }
-    });
-  }, [])
+  // Signs in to Openfort when a user signs in to Firebase, and out when they sign out
+  useThirdPartyAuth({
+    adapter: openfortAuthAdapter,
+    onError: (error) => console.error("Could not sign in to Openfort", error),
+  });
 
   return (
     <div>
@@ -3,6 +3,7 @@ import { createConfig, WagmiProvider } from 'wagmi';
 
 import { getDefaultConfig, OpenfortProvider } from "@openfort/react";
 import { beamTestnet, polygonAmoy, sepolia } from 'viem/chains';
+import { openfortAuthAdapter } from '../lib/firebase';
 
 
 export const config = createConfig(
@@ -22,6 +23,9 @@ export function Providers({ children }: { children: React.ReactNode }) {
           debugMode
           publishableKey={import.meta.env.VITE_PUBLISHABLE_KEY!}
 
+          // Authenticate the requests to Openfort with the Firebase ID token
+          thirdPartyAuth={openfortAuthAdapter}
+
           // Set the wallet configuration. In this example, we will be using the embedded signer.
           walletConfig={{
             shieldPublishableKey: import.meta.env.VITE_SHIELD_PUBLISHABLE_KEY!,
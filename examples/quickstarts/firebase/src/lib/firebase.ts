@@ -1,5 +1,6 @@
 import { initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
+import { firebaseAuthAdapter } from "@openfort/react";
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_apiKey,
@@ -16,5 +17,8 @@ const app = initializeApp(firebaseConfig);
 // Initialize Firebase Authentication and get a reference to the service
 const auth = getAuth(app);
 
+// Connects Firebase Authentication to Openfort
+const openfortAuthAdapter = firebaseAuthAdapter(auth);
+
 // Export the Firebase auth object and any other services you initialize
-export { auth, app };
+export { auth, app, openfortAuthAdapter };
@@ -9,13 +9,21 @@ const styledComponentsTransformer = createStyledComponentsTransformer({
 
 export default [
   {
-    input: ['./src/index.ts'],
+    // The testing and devtools entries share their chunks with the main entry so all use the same React contexts
+    input: {
+      index: './src/index.ts',
+      testing: './src/testing.ts',
+      devtools: './src/devtools.ts',
+    },
     external: ['react', 'react-dom', 'framer-motion', 'wagmi'],
     output: [
       {
-        file: packageJson.exports.import,
+        dir: 'build',
+        entryFileNames: '[name].es.js',
+        chunkFileNames: 'chunks/[name]-[hash].es.js',
         format: 'esm',
         sourcemap: false,
+        banner: "'use client';",
       },
     ],
     plugins: [
@@ -31,4 +39,20 @@ export default [
       }),
     ],
   },
+  {
+    input: ['./src/server.ts'],
+    output: [
+      {
+        file: packageJson.exports['./server'].import,
+        format: 'esm',
+        sourcemap: false,
+      },
+    ],
+    plugins: [
+      typescript({
+        useTsconfigDeclarationDir: true,
+        exclude: 'node_modules/**',
+      }),
+    ],
+  },
 ];
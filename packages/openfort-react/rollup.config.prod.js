@@ -5,12 +5,20 @@ import packageJson from './package.json';
 
 export default [
   {
-    input: ['./src/index.ts'],
+    // The testing and devtools entries share their chunks with the main entry so all use the same React contexts
+    input: {
+      index: './src/index.ts',
+      testing: './src/testing.ts',
+      devtools: './src/devtools.ts',
+    },
     external: ['react', 'react-dom', 'framer-motion', 'wagmi'],
     output: {
-      file: packageJson.exports.import,
+      dir: 'build',
+      entryFileNames: '[name].es.js',
+      chunkFileNames: 'chunks/[name]-[hash].es.js',
       format: 'esm',
       sourcemap: true,
+      banner: "'use client';",
     },
     plugins: [
       peerDepsExternal(),
@@ -20,4 +28,18 @@ export default [
       }),
     ],
   },
+  {
+    input: ['./src/server.ts'],
+    output: {
+      file: packageJson.exports['./server'].import,
+      format: 'esm',
+      sourcemap: true,
+    },
+    plugins: [
+      typescript({
+        useTsconfigDeclarationDir: true,
+        exclude: 'node_modules/**',
+      }),
+    ],
+  },
 ];
@@ -1194,6 +1194,50 @@ const Discord = ({ ...props }) => (
   </svg>
 );
 
+const EpicGames = ({ ...props }) => (
+  <svg
+    width="800px"
+    height="800px"
+    viewBox="0 0 256 256"
+    xmlns="http://www.w3.org/2000/svg"
+    {...props}
+  >
+    <path
+      d="M40 16h176a12 12 0 0 1 12 12v164c0 4-2 7-5 9l-95 39-95-39c-3-2-5-5-5-9V28a12 12 0 0 1 12-12Z"
+      fill="#2F2D2E"
+    />
+    <path
+      d="M72 56h40v16H90v24h20v16H90v28h22v16H72Zm56 0h28c10 0 16 6 16 16v30c0 10-6 16-16 16h-10v38h-18Zm18 16v30h6c2 0 3-1 3-3V75c0-2-1-3-3-3Zm38-16h18v100h-18Z"
+      fill="#FFFFFF"
+    />
+    <path d="M76 184h104l-52 20Z" fill="#FFFFFF" />
+  </svg>
+);
+
+const Line = ({ ...props }) => (
+  <svg
+    width="800px"
+    height="800px"
+    viewBox="0 0 256 256"
+    xmlns="http://www.w3.org/2000/svg"
+    {...props}
+  >
+    <rect width="256" height="256" rx="56" fill="#06C755" />
+    <path
+      d="M128 48c-50.8 0-92 33.4-92 74.6 0 36.9 32.7 67.8 76.9 73.7 3 .6 7.1 2 8.1 4.6.9 2.3.6 6 .3 8.4l-1.3 7.9c-.4 2.3-1.9 9.1 7.9 5 9.8-4.1 53-31.2 72.3-53.4 13.3-14.6 19.8-29.5 19.8-46.2C220 81.4 178.8 48 128 48Z"
+      fill="#FFFFFF"
+    />
+    <path
+      d="M84 104v38h22m10-38v38m14 0v-38l24 38v-38m34 0h-20v38h20m-20-19h20"
+      fill="none"
+      stroke="#06C755"
+      strokeWidth="8"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+    />
+  </svg>
+);
+
 const Openfort = ({ ...props }) => (
   <svg
     viewBox="0 0 22 24"
@@ -1253,6 +1297,8 @@ export const providersLogos = {
   twitter: <Twitter />,
   facebook: <Facebook />,
   discord: <Discord />,
+  epic_games: <EpicGames />,
+  line: <Line />,
 }
 
 export default {
@@ -1291,5 +1337,7 @@ export default {
   Facebook,
   Twitter,
   Discord,
+  EpicGames,
+  Line,
   Openfort,
 };
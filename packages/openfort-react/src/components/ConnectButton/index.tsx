@@ -166,8 +166,7 @@ const ConnectButtonRenderer: React.FC<ConnectButtonRendererProps> = ({
 ConnectButtonRenderer.displayName = 'OpenfortButton.Custom';
 
 const ConnectedLabel = ({ separator }: { separator?: string }) => {
-  const { user, isLoading } = useOpenfortCore();
-  const { address } = useAccount();
+  const { user, isLoading, address } = useOpenfortCore();
 
   if (address && (user || isLoading)) return truncateEthAddress(address, separator)
 
@@ -188,9 +187,9 @@ function OpenfortButtonInner({
 }) {
   const locales = useLocales({});
 
-  const { user } = useOpenfortCore();
+  const { user, address } = useOpenfortCore();
 
-  const { address, chain } = useAccount();
+  const { chain } = useAccount();
   const isChainSupported = useChainIsSupported(chain?.id);
 
   const ensFallbackConfig = useEnsFallbackConfig();
@@ -333,8 +332,9 @@ export function OpenfortButton({
   const isMounted = useIsMounted();
 
   const context = useOpenfort();
+  const { address } = useOpenfortCore();
 
-  const { address, chain } = useAccount();
+  const { chain } = useAccount();
   const chainIsSupported = useChainIsSupported(chain?.id);
 
   const { open } = useUI();
@@ -345,7 +345,8 @@ export function OpenfortButton({
     ? '....'
     : undefined;
 
-  if (!isMounted) return null;
+  // A server snapshot of the wallet can be rendered before mounting without a hydration mismatch
+  if (!isMounted && !address) return null;
 
   const shouldShowBalance = showBalance && chainIsSupported;
   const willShowBalance = address && shouldShowBalance;
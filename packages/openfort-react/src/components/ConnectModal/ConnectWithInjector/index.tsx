@@ -35,6 +35,7 @@ import { useOpenfort } from '../../Openfort/useOpenfort';
 import CircleSpinner from './CircleSpinner';
 
 import { useConnectWithSiwe } from '../../../hooks/openfort/useConnectWithSiwe';
+import { OpenfortErrorCode } from '../../../types';
 
 export const states = {
   CONNECTED: 'connected',
@@ -45,6 +46,8 @@ export const states = {
   NOTCONNECTED: 'notconnected',
   UNAVAILABLE: 'unavailable',
   DUPLICATED: 'duplicated',
+  UNVERIFIABLE: 'unverifiable',
+  WAITING_FOR_OWNERS: 'waitingForOwners',
 };
 
 const contentVariants: Variants = {
@@ -81,7 +84,7 @@ const ConnectWithInjector: React.FC<{
   forceState?: typeof states;
 }> = ({ switchConnectMethod, forceState }) => {
   const openfort = useOpenfortCore();
-  const { log, setOpen } = useOpenfort();
+  const { log, setOpen, trackAnalyticsEvent } = useOpenfort();
   const { isConnected } = useAccount();
   const { disconnect } = useDisconnect();
   const connectWithSiwe = useConnectWithSiwe();
@@ -137,6 +140,7 @@ const ConnectWithInjector: React.FC<{
 
           // If already has linked account, don't link again
           if (openfort.user?.linkedAccounts.find((acc) => acc.walletClientType === wallet?.connector?.name.toLowerCase())) {
+            trackAnalyticsEvent('wallet_connected', { provider: id });
             setOpen(false);
             return;
           }
@@ -144,18 +148,27 @@ const ConnectWithInjector: React.FC<{
           connectWithSiwe({
             // connectorType: wallet.connector.id,
             // walletClientType: wallet.connector.name.toLowerCase(),
-            onError: (error, status) => {
+            onError: (error, status, openfortError) => {
               console.error(error);
               disconnect();
-              if (status === 409) {
+              if (status === 409 || openfortError?.code === OpenfortErrorCode.WALLET_ALREADY_LINKED) {
                 setStatus(states.DUPLICATED);
+              } else if (openfortError?.code === OpenfortErrorCode.INVALID_SIGNATURE) {
+                setStatus(states.UNVERIFIABLE);
+              } else if (openfortError?.code === OpenfortErrorCode.USER_REJECTED) {
+                setStatus(states.REJECTED);
               } else {
                 setStatus(states.FAILED);
               }
             },
             onConnect: () => {
+              trackAnalyticsEvent('wallet_connected', { provider: id });
               setOpen(false);
             },
+            onWaitingForOwners: () => {
+              setStatus(states.WAITING_FOR_OWNERS);
+              setTimeout(triggerResize, 100);
+            },
           });
         }
         setTimeout(triggerResize, 100);
@@ -214,6 +227,7 @@ const ConnectWithInjector: React.FC<{
       if (isConnected)
         disconnect();
 
+      trackAnalyticsEvent('wallet_connect_started', { provider: id });
       connect({ connector: wallet?.connector })
 
     } else {
@@ -221,6 +235,19 @@ const ConnectWithInjector: React.FC<{
     }
   };
 
+  useEffect(() => {
+    if (
+      status === states.FAILED
+      || status === states.REJECTED
+      || status === states.DUPLICATED
+      || status === states.UNVERIFIABLE
+      || status === states.NOTCONNECTED
+      || status === states.UNAVAILABLE
+    ) {
+      trackAnalyticsEvent('wallet_connect_failed', { provider: id, errorType: status });
+    }
+  }, [status, id, trackAnalyticsEvent]);
+
   let connectTimeout: any;
   useEffect(() => {
     if (status === states.UNAVAILABLE) return;
@@ -286,7 +313,7 @@ const ConnectWithInjector: React.FC<{
     );
   }
 
-  const hasError = status === states.FAILED || status === states.REJECTED || status === states.DUPLICATED;
+  const hasError = status === states.FAILED || status === states.REJECTED || status === states.DUPLICATED || status === states.UNVERIFIABLE;
 
   return (
     <PageContent>
@@ -340,7 +367,7 @@ const ConnectWithInjector: React.FC<{
                   )
                 }
                 smallLogo={walletInfo.iconShouldShrink}
-                connecting={status === states.CONNECTING}
+                connecting={status === states.CONNECTING || status === states.WAITING_FOR_OWNERS}
                 unavailable={status === states.UNAVAILABLE}
               />
             ) : (
@@ -360,7 +387,7 @@ const ConnectWithInjector: React.FC<{
                     <>{walletInfo.icon}</>
                   )
                 }
-                connecting={status === states.CONNECTING}
+                connecting={status === states.CONNECTING || status === states.WAITING_FOR_OWNERS}
               //unavailable={status === states.UNAVAILABLE}
               />
             )}
@@ -450,7 +477,38 @@ const ConnectWithInjector: React.FC<{
                     <AlertIcon />
                     {locales.injectionScreen_failed_h1}
                   </ModalH1>
-                  <ModalBody>This wallet is already linked to another player. Please try another wallet.</ModalBody>{/* TODO: Localize */}
+                  <ModalBody>{locales.injectionScreen_alreadylinked_p}</ModalBody>
+                </ModalContent>
+              </Content>
+            )}
+            {status === states.UNVERIFIABLE && (
+              <Content
+                key={states.UNVERIFIABLE}
+                initial={'initial'}
+                animate={'animate'}
+                exit={'exit'}
+                variants={contentVariants}
+              >
+                <ModalContent style={{ paddingBottom: 28 }}>
+                  <ModalH1 $error>
+                    <AlertIcon />
+                    {locales.injectionScreen_failed_h1}
+                  </ModalH1>
+                  <ModalBody>{locales.injectionScreen_unverifiable_p}</ModalBody>
+                </ModalContent>
+              </Content>
+            )}
+            {status === states.WAITING_FOR_OWNERS && (
+              <Content
+                key={states.WAITING_FOR_OWNERS}
+                initial={'initial'}
+                animate={'animate'}
+                exit={'exit'}
+                variants={contentVariants}
+              >
+                <ModalContent style={{ paddingBottom: 28 }}>
+                  <ModalH1>{locales.injectionScreen_waitingforowners_h1}</ModalH1>
+                  <ModalBody>{locales.injectionScreen_waitingforowners_p}</ModalBody>
                 </ModalContent>
               </Content>
             )}
@@ -1,5 +1,6 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { providersLogos } from "../../assets/logos";
+import { OAuthPopupClosedError, oauthPopupParam, openOAuthPopup, waitForOAuthPopup } from '../../openfort/core';
 import { useOpenfortCore } from '../../openfort/useOpenfort';
 import Loader from "../Common/Loading";
 import { PageContent } from "../Common/Modal/styles";
@@ -14,11 +15,16 @@ const states = {
 };
 
 const ConnectWithOAuth: React.FC<{}> = ({ }) => {
-  const { connector, setRoute, log } = useOpenfort();
-  const { client, user } = useOpenfortCore();
+  const { connector, setRoute, log, uiConfig } = useOpenfort();
+  const { client, user, updateUser } = useOpenfortCore();
 
   const [status, setStatus] = useState(states.INIT);
   const [description, setDescription] = useState<string | undefined>(undefined);
+  // Opened by the click on the provider, or on retry
+  const popupRef = useRef(connector.type === "oauth" ? connector.popup ?? null : null);
+
+  // Leaving the page before the popup is used
+  useEffect(() => () => popupRef.current?.close(), []);
 
   useEffect(() => {
     (async () => {
@@ -59,7 +65,7 @@ const ConnectWithOAuth: React.FC<{}> = ({ }) => {
           })
 
           setRoute(routes.LOADING);
-        case states.REDIRECT:
+        case states.REDIRECT: {
           if (hasProvider) return;
 
           const cleanURL = window.location.origin + window.location.pathname;
@@ -76,6 +82,26 @@ const ConnectWithOAuth: React.FC<{}> = ({ }) => {
           );
           queryParams["openfortAuthProviderUI"] = provider;
 
+          const popup = popupRef.current;
+          popupRef.current = null;
+
+          // The popup only needs to be recognised by its callback page, the credentials are sent back to this page
+          const redirectOptions = popup
+            ? { redirectTo: cleanURL, queryParams: { [oauthPopupParam]: "true" }, skipBrowserRedirect: true }
+            : { redirectTo: cleanURL, queryParams };
+
+          const signInWithPopup = async (url: string) => {
+            if (!popup) return false;
+
+            popup.location.href = url;
+            const credentials = await waitForOAuthPopup(popup);
+            await client.auth.storeCredentials(credentials);
+            // Linking an account does not change the embedded state, so the user is fetched again
+            await updateUser();
+            setRoute(routes.LOADING);
+            return true;
+          };
+
           try {
 
             if (user) {
@@ -88,31 +114,32 @@ const ConnectWithOAuth: React.FC<{}> = ({ }) => {
               const linkResponse = await client.auth.initLinkOAuth({
                 authToken,
                 provider,
-                options: {
-                  redirectTo: cleanURL,
-                  queryParams,
-                }
+                options: redirectOptions,
               });
-              log(linkResponse);
+              if (await signInWithPopup(linkResponse.url)) return;
+
+              log("Redirecting to link OAuth provider", linkResponse);
               window.location.href = linkResponse.url;
             } else {
               const r = await client.auth.initOAuth({
                 provider,
-                options: {
-                  redirectTo: cleanURL,
-                  queryParams,
-                }
+                options: redirectOptions,
               });
-              log(r);
+              if (await signInWithPopup(r.url)) return;
+
+              log("Redirecting to OAuth provider", r);
               window.location.href = r.url;
             }
           }
           catch (e) {
+            popup?.close();
             console.error("Error during OAuth initialization:", e);
             setRoute(routes.CONNECT);
             setStatus(states.ERROR);
             if (e instanceof Error) {
-              if (e.message.includes("not enabled")) {
+              if (e instanceof OAuthPopupClosedError) {
+                setDescription("The sign in window was closed. Please try again.");
+              } else if (e.message.includes("not enabled")) {
                 setDescription(`The ${provider} provider is not enabled. Please contact support.`);
               } else {
                 setDescription("There was an error during authentication. Please try again.");
@@ -120,6 +147,7 @@ const ConnectWithOAuth: React.FC<{}> = ({ }) => {
             }
           }
           break;
+        }
       }
     })();
   }, [status]);
@@ -132,6 +160,10 @@ const ConnectWithOAuth: React.FC<{}> = ({ }) => {
         isError={status === states.ERROR}
         description={description}
         onRetry={() => {
+          if (uiConfig.oauthMode === 'popup') {
+            popupRef.current = openOAuthPopup();
+            if (!popupRef.current) log("OAuth popup was blocked, falling back to a redirect");
+          }
           setStatus(states.INIT);
           setDescription(undefined);
         }}
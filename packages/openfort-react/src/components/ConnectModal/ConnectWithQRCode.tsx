@@ -10,7 +10,7 @@ import {
 } from '../../utils';
 
 import { OrDivider } from '../Common/Modal';
-import { ModalContent, PageContent } from '../Common/Modal/styles';
+import { ModalBody, ModalContent, PageContent } from '../Common/Modal/styles';
 
 import ScanIconWithLogos from '../../assets/ScanIconWithLogos';
 import { ExternalLinkIcon } from '../../assets/icons';
@@ -29,6 +29,7 @@ const ConnectWithQRCode: React.FC<{
   switchConnectMethod: (id?: string) => void;
 }> = ({ switchConnectMethod }) => {
   const context = useOpenfort();
+  const [isWaitingForOwners, setIsWaitingForOwners] = React.useState(false);
 
   const id = context.connector.id;
 
@@ -84,11 +85,16 @@ const ConnectWithQRCode: React.FC<{
           // walletClientType: 'walletConnect',
           onError: (error) => {
             log(error);
+            setIsWaitingForOwners(false);
             disconnect();
           },
           onConnect: () => {
             setOpen(false);
           },
+          onWaitingForOwners: () => {
+            setIsWaitingForOwners(true);
+            setTimeout(context.triggerResize, 100);
+          },
         });
       }
     }
@@ -109,6 +115,9 @@ const ConnectWithQRCode: React.FC<{
   return (
     <PageContent>
       <ModalContent style={{ paddingBottom: 8, gap: 14 }}>
+        {isWaitingForOwners && (
+          <ModalBody>{locales.injectionScreen_waitingforowners_p}</ModalBody>
+        )}
         <CustomQRCode
           value={uri}
           image={wallet?.icon}
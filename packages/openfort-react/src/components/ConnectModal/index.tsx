@@ -17,6 +17,7 @@ import { OAuthProvider } from '@openfort/openfort-js';
 import { ValueOf } from 'viem/_types/types/utils';
 import { getAppName } from '../../defaultConfig';
 import { useChainIsSupported } from '../../hooks/useChainIsSupported';
+import { completeOAuthPopup } from '../../openfort/core';
 import { useOpenfortCore } from '../../openfort/useOpenfort';
 import { ConnectKitThemeProvider } from '../ConnectKitThemeProvider/ConnectKitThemeProvider';
 import { routes } from '../Openfort/types';
@@ -28,6 +29,7 @@ import LinkEmail from '../Pages/LinkEmail';
 import Loading from '../Pages/Loading';
 import Providers from '../Pages/Providers';
 import RecoverPage from '../Pages/Recover';
+import SessionTimeout from '../Pages/SessionTimeout';
 import SocialProviders from '../Pages/SoicalProviders';
 
 const customThemeDefault: object = {};
@@ -39,7 +41,7 @@ const ConnectModal: React.FC<{
   lang?: Languages;
 }> = ({ mode = 'auto', theme = 'auto', customTheme = customThemeDefault, lang = 'en-US' }) => {
   const context = useOpenfort();
-  const { logout, user } = useOpenfortCore();
+  const { logout, user, extendSession } = useOpenfortCore();
   const { isConnected, chain } = useAccount();
   const chainIsSupported = useChainIsSupported(chain?.id);
 
@@ -55,6 +57,7 @@ const ConnectModal: React.FC<{
     routes.LOADING,
     routes.PROVIDERS,
     routes.EMAIL_VERIFICATION,
+    routes.SESSION_TIMEOUT,
   ];
 
   const showBackButton =
@@ -120,14 +123,20 @@ const ConnectModal: React.FC<{
     profile: <Profile />,
     switchNetworks: <SwitchNetworks />,
     recover: <RecoverPage />,
+    sessionTimeout: <SessionTimeout />,
   };
 
   function hide() {
+    // Dismissing the inactivity warning counts as activity
+    if (context.route === routes.SESSION_TIMEOUT) extendSession();
     context.setOpen(false);
   }
 
   // if auth redirect
   useEffect(() => {
+    // This page is the callback of an OAuth popup, the page that opened it completes the sign in
+    if (completeOAuthPopup()) return;
+
     const url = new URL(window.location.href);
     const provider = url.searchParams.get("openfortAuthProviderUI");
     const emailVerification = url.searchParams.get("openfortEmailVerificationUI");
@@ -160,6 +169,12 @@ const ConnectModal: React.FC<{
     }
   }, [])
 
+  // Funnel steps, the time spent on each one is measured by the tracker
+  useEffect(() => {
+    if (context.open) context.analytics.enterStep(context.route);
+    else context.analytics.close();
+  }, [context.open, context.route, context.analytics]);
+
   useEffect(() => context.setMode(mode), [mode]);
   useEffect(() => context.setTheme(theme), [theme]);
   useEffect(() => context.setCustomTheme(customTheme), [customTheme]);
@@ -0,0 +1,206 @@
+import { EmbeddedAccount, EmbeddedState } from '@openfort/openfort-js';
+import { useQueryClient } from '@tanstack/react-query';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useAccount } from 'wagmi';
+import { getOpenfortStatus, OpenfortStatus } from '../../hooks/openfort/useStatus';
+import { subscribeToHookErrors } from '../../hooks/openfort/hookConsistency';
+import { useOpenfortCore } from '../../openfort/useOpenfort';
+import Portal from '../Common/Portal';
+import { routes } from '../Openfort/types';
+import { useOpenfort } from '../Openfort/useOpenfort';
+import {
+  ActionButton,
+  Actions,
+  ErrorText,
+  List,
+  Muted,
+  Panel,
+  Row,
+  Section,
+  SectionTitle,
+  Select,
+  Toggle,
+} from './styles';
+
+// Older entries are dropped so that a long session does not grow the panel forever
+const historyLimit = 20;
+
+type RouteHistoryEntry = { route: string; timestamp: number };
+type HookErrorEntry = { message: string; code?: string; timestamp: number };
+
+export type OpenfortDevtoolsProps = {
+  /** @defaultValue false */
+  initialIsOpen?: boolean;
+  /** @defaultValue 'bottom-left' */
+  position?: 'bottom-left' | 'bottom-right';
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString();
+
+const appendEntry = <T,>(entries: T[], entry: T) => [...entries, entry].slice(-historyLimit);
+
+const groupByChain = (accounts: EmbeddedAccount[]) =>
+  accounts.reduce<Record<string, EmbeddedAccount[]>>((groups, account) => {
+    const chain = account.chainId?.toString() ?? 'unknown';
+    return { ...groups, [chain]: [...(groups[chain] ?? []), account] };
+  }, {});
+
+/**
+ * Floating panel showing the internal state of Openfort, to debug flows that get stuck, e.g. on loading.
+ *
+ * Shows the embedded state, the computed {@link OpenfortStatus}, the user and its linked accounts, the embedded
+ * accounts per chain, the modal route history and the latest errors reported by the hooks. Must be rendered
+ * inside the `OpenfortProvider`.
+ *
+ * Import it from `@openfort/react/devtools`, it renders nothing unless `process.env.NODE_ENV` is `development`
+ * and bundlers drop it from production builds.
+ *
+ * @example
+ * ```tsx
+ * import { OpenfortDevtools } from '@openfort/react/devtools';
+ *
+ * <OpenfortProvider publishableKey="pk_...">
+ *   <App />
+ *   <OpenfortDevtools initialIsOpen={false} />
+ * </OpenfortProvider>
+ * ```
+ */
+export const OpenfortDevtools = ({ initialIsOpen = false, position = 'bottom-left' }: OpenfortDevtoolsProps) => {
+  const { route, setRoute, open, setOpen, events } = useOpenfort();
+  const {
+    embeddedState,
+    user,
+    embeddedAccounts,
+    isLoading,
+    isLoadingAccounts,
+    needsRecovery,
+    isReconnecting,
+    address,
+    logout,
+  } = useOpenfortCore();
+  const { address: wagmiAddress, chainId, isConnected, status: wagmiStatus } = useAccount();
+  const queryClient = useQueryClient();
+
+  const [isOpen, setIsOpen] = useState(initialIsOpen);
+  const [routeHistory, setRouteHistory] = useState<RouteHistoryEntry[]>(() => [{ route, timestamp: Date.now() }]);
+  const [hookErrors, setHookErrors] = useState<HookErrorEntry[]>([]);
+  const [selectedRoute, setSelectedRoute] = useState<string>(routes.PROVIDERS);
+
+  useEffect(() => events.on('modal:routeChanged', ({ route: nextRoute }) => {
+    setRouteHistory((entries) => appendEntry(entries, { route: nextRoute, timestamp: Date.now() }));
+  }), [events]);
+
+  useEffect(() => subscribeToHookErrors((error) => {
+    setHookErrors((entries) => appendEntry(entries, { message: error.message, code: error.code, timestamp: Date.now() }));
+  }), []);
+
+  const accountsByChain = useMemo(() => groupByChain(embeddedAccounts ?? []), [embeddedAccounts]);
+  const status = getOpenfortStatus(embeddedState, isConnected);
+
+  const jumpToRoute = () => {
+    setRoute(selectedRoute as (typeof routes)[keyof typeof routes]);
+    setOpen(true);
+  };
+
+  return (
+    <Portal selector="__OPENFORT_DEVTOOLS__">
+      <Toggle type="button" $position={position} onClick={() => setIsOpen((value) => !value)}>
+        {isOpen ? 'Close' : 'Openfort'}
+      </Toggle>
+      {isOpen && (
+        <Panel $position={position} role="dialog" aria-label="Openfort devtools">
+          <Section>
+            <SectionTitle>State</SectionTitle>
+            <Row><span>embeddedState</span><span>{EmbeddedState[embeddedState]}</span></Row>
+            <Row><span>status</span><span>{OpenfortStatus[status]}</span></Row>
+            <Row><span>isLoading</span><span>{String(isLoading)}</span></Row>
+            <Row><span>needsRecovery</span><span>{String(needsRecovery)}</span></Row>
+            <Row><span>isReconnecting</span><span>{String(isReconnecting)}</span></Row>
+            <Row><span>address</span><span>{address ?? <Muted>none</Muted>}</span></Row>
+            <Row><span>wagmi</span><span>{wagmiStatus}{wagmiAddress ? ` ${wagmiAddress}` : ''}</span></Row>
+            <Row><span>chainId</span><span>{chainId ?? <Muted>none</Muted>}</span></Row>
+            <Row><span>modal</span><span>{open ? route : <Muted>closed ({route})</Muted>}</span></Row>
+          </Section>
+
+          <Section>
+            <SectionTitle>User</SectionTitle>
+            {user ? (
+              <>
+                <Row><span>id</span><span>{user.id}</span></Row>
+                <List>
+                  {user.linkedAccounts.map((account, index) => (
+                    <li key={index}>
+                      {account.provider} {account.email ?? account.address ?? ''}
+                      {account.verified === false && <Muted> unverified</Muted>}
+                    </li>
+                  ))}
+                </List>
+              </>
+            ) : (
+              <Muted>Signed out</Muted>
+            )}
+          </Section>
+
+          <Section>
+            <SectionTitle>Embedded accounts{isLoadingAccounts ? ' (loading)' : ''}</SectionTitle>
+            {Object.keys(accountsByChain).length === 0 && <Muted>None</Muted>}
+            {Object.entries(accountsByChain).map(([chain, accounts]) => (
+              <div key={chain}>
+                <Muted>Chain {chain}</Muted>
+                <List>
+                  {accounts.map((account) => (
+                    <li key={account.id}>
+                      {account.address === wagmiAddress ? '● ' : '○ '}
+                      {account.address} <Muted>{account.accountType} {account.recoveryMethod ?? ''}</Muted>
+                    </li>
+                  ))}
+                </List>
+              </div>
+            ))}
+          </Section>
+
+          <Section>
+            <SectionTitle>Route history</SectionTitle>
+            <List>
+              {[...routeHistory].reverse().map((entry, index) => (
+                <li key={index}><Muted>{formatTime(entry.timestamp)}</Muted> {entry.route}</li>
+              ))}
+            </List>
+          </Section>
+
+          <Section>
+            <SectionTitle>Hook errors</SectionTitle>
+            {hookErrors.length === 0 && <Muted>None</Muted>}
+            <List>
+              {[...hookErrors].reverse().map((entry, index) => (
+                <li key={index}>
+                  <Muted>{formatTime(entry.timestamp)}</Muted> <ErrorText>{entry.code ?? 'UNKNOWN'}</ErrorText> {entry.message}
+                </li>
+              ))}
+            </List>
+          </Section>
+
+          <Section>
+            <SectionTitle>Actions</SectionTitle>
+            <Actions>
+              <ActionButton type="button" onClick={() => logout()}>Force logout</ActionButton>
+              <ActionButton
+                type="button"
+                onClick={() => queryClient.refetchQueries({ queryKey: ['openfortEmbeddedAccountsList'] })}
+              >
+                Refetch accounts
+              </ActionButton>
+              <ActionButton type="button" onClick={() => setHookErrors([])}>Clear errors</ActionButton>
+            </Actions>
+            <Actions style={{ marginTop: 6 }}>
+              <Select value={selectedRoute} onChange={(event) => setSelectedRoute(event.target.value)} aria-label="Route">
+                {Object.values(routes).map((value) => <option key={value} value={value}>{value}</option>)}
+              </Select>
+              <ActionButton type="button" onClick={jumpToRoute}>Open route</ActionButton>
+            </Actions>
+          </Section>
+        </Panel>
+      )}
+    </Portal>
+  );
+};
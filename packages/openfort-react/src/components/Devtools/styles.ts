@@ -0,0 +1,110 @@
+import styled from '../../styles/styled';
+
+type Position = 'bottom-left' | 'bottom-right';
+
+export const Toggle = styled.button<{ $position: Position }>`
+  position: fixed;
+  bottom: 12px;
+  ${({ $position }) => ($position === 'bottom-left' ? 'left: 12px;' : 'right: 12px;')}
+  z-index: 2147483646;
+  padding: 6px 10px;
+  border: none;
+  border-radius: 8px;
+  background: #111827;
+  color: #f9fafb;
+  font: 600 12px/1 ui-monospace, SFMono-Regular, Menlo, monospace;
+  cursor: pointer;
+  box-shadow: 0 2px 8px rgba(0, 0, 0, 0.25);
+`;
+
+export const Panel = styled.div<{ $position: Position }>`
+  position: fixed;
+  bottom: 48px;
+  ${({ $position }) => ($position === 'bottom-left' ? 'left: 12px;' : 'right: 12px;')}
+  z-index: 2147483646;
+  width: 380px;
+  max-height: 70vh;
+  overflow-y: auto;
+  padding: 12px;
+  border-radius: 12px;
+  background: #111827;
+  color: #e5e7eb;
+  font: 12px/1.5 ui-monospace, SFMono-Regular, Menlo, monospace;
+  box-shadow: 0 8px 24px rgba(0, 0, 0, 0.35);
+`;
+
+export const Section = styled.section`
+  & + & {
+    margin-top: 12px;
+    padding-top: 12px;
+    border-top: 1px solid #374151;
+  }
+`;
+
+export const SectionTitle = styled.h4`
+  margin: 0 0 6px;
+  color: #9ca3af;
+  font-size: 11px;
+  font-weight: 600;
+  text-transform: uppercase;
+  letter-spacing: 0.05em;
+`;
+
+export const Row = styled.div`
+  display: flex;
+  justify-content: space-between;
+  gap: 12px;
+  word-break: break-all;
+
+  & > span:first-child {
+    flex-shrink: 0;
+    color: #9ca3af;
+  }
+`;
+
+export const List = styled.ul`
+  margin: 0;
+  padding: 0;
+  list-style: none;
+
+  li {
+    word-break: break-all;
+  }
+`;
+
+export const Muted = styled.span`
+  color: #6b7280;
+`;
+
+export const ErrorText = styled.span`
+  color: #f87171;
+`;
+
+export const Actions = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 6px;
+`;
+
+export const ActionButton = styled.button`
+  padding: 4px 8px;
+  border: 1px solid #4b5563;
+  border-radius: 6px;
+  background: #1f2937;
+  color: inherit;
+  font: inherit;
+  cursor: pointer;
+
+  &:hover {
+    background: #374151;
+  }
+`;
+
+export const Select = styled.select`
+  padding: 3px 6px;
+  border: 1px solid #4b5563;
+  border-radius: 6px;
+  background: #1f2937;
+  color: inherit;
+  font: inherit;
+`;
@@ -2,11 +2,13 @@ import { Buffer } from 'buffer';
 import React, {
   createElement,
   useEffect,
+  useMemo,
+  useRef,
   useState
 } from 'react';
 
 
-import { RecoveryMethod, SDKOverrides, ThirdPartyAuthConfiguration } from '@openfort/openfort-js';
+import { EmbeddedState, Openfort, RecoveryMethod, SDKOverrides, ThirdPartyAuthConfiguration } from '@openfort/openfort-js';
 import { ValueOf } from 'viem/_types/types/utils';
 import { WagmiContext, useAccount } from 'wagmi';
 import { useChainIsSupported } from '../../hooks/useChainIsSupported';
@@ -17,7 +19,20 @@ import {
 import { useConnector } from '../../hooks/useConnectors';
 import { useThemeFont } from '../../hooks/useGoogleFont';
 import { CoreOpenfortProvider } from '../../openfort/CoreOpenfortProvider';
+import {
+  AnalyticsEventHandler,
+  createAnalyticsTracker,
+  createLocalStorage,
+  createLogger,
+  createOpenfortEventBus,
+  LoggerSink,
+  LogLevel,
+  OpenfortInitialState,
+  OpenfortStorage,
+  RetryPolicy,
+} from '../../openfort/core';
 import { CustomTheme, Languages, Mode, Theme } from '../../types';
+import { SiweOptions } from '../../siwe/create-siwe-message';
 import { isFamily } from '../../utils/wallets';
 import ConnectKitModal from '../ConnectModal';
 import { Web3ContextProvider } from '../contexts/web3';
@@ -26,15 +41,74 @@ import { UIAuthProvider, ConnectUIOptions, OpenfortUIOptionsExtended, OpenfortWa
 
 type OpenfortProviderProps = {
   children?: React.ReactNode;
+  /** Logs debug information to the console, same as `logLevel: 'debug'`. */
   debugMode?: boolean;
+  /** Receives the Openfort diagnostics instead of the console, with tokens and passwords redacted. */
+  logger?: LoggerSink;
+  /** Minimum level of the diagnostics that are logged, defaults to `debug` in debug mode and `warn` otherwise. */
+  logLevel?: LogLevel;
 
   publishableKey: string;
+  /**
+   * `sandbox` runs every flow against a fake Openfort backend in the browser, for demos, Storybook and offline e2e runs.
+   * No request reaches Openfort: email sign ups are verified instantly, OAuth redirects straight back to the app and
+   * embedded wallets are local private keys, announced to wagmi like the real embedded wallet. Transactions are sent
+   * to the RPC URL of the wagmi chain, e.g. a local anvil node. The fake backend is loaded on demand, the provider
+   * renders nothing until it is.
+   *
+   * @defaultValue 'production'
+   */
+  mode?: 'production' | 'sandbox';
   uiConfig?: ConnectUIOptions;
   walletConfig?: OpenfortWalletConfig;
   overrides?: SDKOverrides;
   thirdPartyAuth?: ThirdPartyAuthConfiguration;
+  /**
+   * Sign-In with Ethereum messages signed to sign in with a wallet or link it, e.g. a custom statement or ReCap
+   * resources. The chain defaults to the chain of the connected wallet.
+   */
+  siwe?: SiweOptions;
+  /**
+   * Where the session and the library's own keys are stored, defaults to `localStorage`.
+   * Pass the same adapter to wagmi with `toWagmiStorage` to keep its state alongside the session.
+   */
+  storage?: OpenfortStorage;
+  /**
+   * How requests for the user, the embedded accounts and the encryption session are retried.
+   * Network errors are retried with exponential backoff, authentication errors are not.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Called for every step of the connect modal funnel, e.g. the provider picked or the wallet created.
+   * Events carry the step, provider, duration and error type, never emails, addresses or tokens.
+   */
+  onAnalyticsEvent?: AnalyticsEventHandler;
+
+  /**
+   * Client used instead of creating one from the `publishableKey`, e.g. the fake client of `@openfort/react/testing`.
+   * The client is read on the first render only.
+   */
+  client?: Openfort;
+
+  /** Session snapshot used for the first render, see `cookieToOpenfortInitialState` in `@openfort/react/server`. */
+  initialState?: OpenfortInitialState;
+  /** Persists a session snapshot in a cookie so that server renders know the signed in user. */
+  ssr?: boolean;
 } & useConnectCallbackProps;
 
+const getInitialRoute = (initialState?: OpenfortInitialState): ValueOf<typeof routes> => {
+  switch (initialState?.embeddedState) {
+    case EmbeddedState.UNAUTHENTICATED:
+      return routes.PROVIDERS;
+    case EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED:
+      return initialState.user ? routes.RECOVER : routes.LOADING;
+    case EmbeddedState.READY:
+      return initialState.user && initialState.address ? routes.PROFILE : routes.LOADING;
+    default:
+      return routes.LOADING;
+  }
+};
+
 /**
  * Provides Openfort configuration and context to descendant components.
  *
@@ -45,12 +119,15 @@ type OpenfortProviderProps = {
  * @returns A React element that sets up the Openfort context.
  * @throws If the component is rendered outside of a Wagmi provider or mounted multiple times.
  *
+ * For server-side rendering, enable `ssr` and pass the `initialState` read from the request cookies so
+ * the first render already knows the signed in user.
+ *
  * @example
  * ```tsx
  * import { WagmiConfig, createConfig } from 'wagmi';
  * import { OpenfortProvider } from '@openfort/openfort-react';
  *
- * const config = createConfig({ /* wagmi configuration */ });
+ * const config = createConfig({ ... }); // wagmi configuration
  *
  * export function App() {
  *   return (
@@ -69,11 +146,21 @@ export const OpenfortProvider = ({
   onConnect,
   onDisconnect,
   debugMode = false,
+  logger: loggerSink,
+  logLevel,
 
   publishableKey,
-  walletConfig,
+  mode = 'production',
+  walletConfig: walletConfigProp,
   overrides,
   thirdPartyAuth,
+  siwe,
+  storage: storageProp,
+  retryPolicy,
+  onAnalyticsEvent,
+  client,
+  initialState,
+  ssr = false,
 }: OpenfortProviderProps) => {
   // OpenfortProvider must be within a WagmiProvider
   if (!React.useContext(WagmiContext)) {
@@ -89,9 +176,25 @@ export const OpenfortProvider = ({
   }
 
 
+  const logger = useMemo(
+    () => createLogger({ sink: loggerSink, level: logLevel ?? (debugMode ? 'debug' : 'warn') }),
+    [loggerSink, logLevel, debugMode]
+  );
+  const modalLogger = useMemo(() => logger.child('modal'), [logger]);
+
   const chains = useChains();
 
   const injectedConnector = useConnector('injected');
+
+  // The sandbox backend accepts any encryption session, so automatic recovery works without a backend
+  const walletConfig = useMemo<OpenfortWalletConfig | undefined>(() => mode === 'sandbox'
+    ? {
+      ...walletConfigProp,
+      shieldPublishableKey: walletConfigProp?.shieldPublishableKey ?? 'shield_sandbox',
+      createEncryptedSessionEndpoint: undefined,
+      getEncryptionSession: async () => 'sandbox_session',
+    }
+    : walletConfigProp, [mode, walletConfigProp]);
   const allowAutomaticRecovery = !!(walletConfig?.createEncryptedSessionEndpoint || walletConfig?.getEncryptionSession);
 
   // Default config options
@@ -118,6 +221,7 @@ export const OpenfortProvider = ({
     ethereumOnboardingUrl: undefined,
     walletOnboardingUrl: undefined,
     disableSiweRedirect: false,
+    oauthMode: 'redirect',
     walletRecovery: {
       allowedMethods: [
         RecoveryMethod.PASSWORD,
@@ -143,7 +247,7 @@ export const OpenfortProvider = ({
 
   if (safeUiConfig.walletRecovery.allowedMethods.includes(RecoveryMethod.AUTOMATIC) && !allowAutomaticRecovery) {
     safeUiConfig.walletRecovery.allowedMethods = safeUiConfig.walletRecovery.allowedMethods.filter(m => m !== RecoveryMethod.AUTOMATIC);
-    console.warn("Automatic recovery method was removed from allowedMethods because no recovery options are configured in the walletConfig. Please provide either createEncryptedSessionEndpoint or getEncryptionSession to enable automatic recovery.");
+    logger.warn("Automatic recovery method was removed from allowedMethods because no recovery options are configured in the walletConfig. Please provide either createEncryptedSessionEndpoint or getEncryptionSession to enable automatic recovery.");
   }
 
   if (typeof window !== 'undefined') {
@@ -168,13 +272,40 @@ export const OpenfortProvider = ({
   const [connector, setConnector] = useState<ContextValue['connector']>({
     id: '',
   });
-  const [route, setRoute] = useState<ValueOf<typeof routes>>(routes.LOADING);
+  const [route, setRoute] = useState<ValueOf<typeof routes>>(() => getInitialRoute(initialState));
   const [errorMessage, setErrorMessage] = useState<ErrorMessage>('');
 
   const [resize, onResize] = useState<number>(0);
+  // The bus lives as long as the provider, while the logger changes with its sink and level
+  const loggerRef = useRef(logger);
+  loggerRef.current = logger;
+  const [events] = useState(() => createOpenfortEventBus({
+    logError: (message, ...data) => loggerRef.current.error(message, ...data),
+  }));
+  const onAnalyticsEventRef = useRef(onAnalyticsEvent);
+  onAnalyticsEventRef.current = onAnalyticsEvent;
+  const [analytics] = useState(() => createAnalyticsTracker((event) => onAnalyticsEventRef.current?.(event)));
+  const [storage] = useState(() => storageProp ?? createLocalStorage());
+  const [sandboxClient, setSandboxClient] = useState<Openfort>();
+  const isLoadingSandbox = mode === 'sandbox' && !client && !sandboxClient;
+
+  // The fake backend is only loaded in sandbox mode, so that it stays out of production bundles
+  useEffect(() => {
+    if (!isLoadingSandbox) return;
+
+    let cancelled = false;
+    import('../../openfort/testing/fakeClient').then(({ asOpenfortClient, createFakeOpenfortClient }) => {
+      if (cancelled) return;
+      setSandboxClient(asOpenfortClient(createFakeOpenfortClient({ storage, storageKey: 'openfort-sandbox', chains })));
+      logger.info('Running in sandbox mode, no request is sent to Openfort');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoadingSandbox, storage, chains, logger]);
 
   // Include Google Font that is needed for a themes
-  if (safeUiConfig.embedGoogleFonts) useThemeFont(ckTheme);
+  useThemeFont(ckTheme, !!safeUiConfig.embedGoogleFonts);
 
   // Other Configuration
   useEffect(() => setTheme(uiConfig?.theme ?? 'auto'), [uiConfig?.theme]);
@@ -192,7 +323,7 @@ export const OpenfortProvider = ({
       setOpen(true);
       setRoute(routes.SWITCHNETWORKS);
     }
-  }, [isConnected, isChainSupported, chain, route, open]);
+  }, [isConnected, isChainSupported, chain, route, open, safeUiConfig.enforceSupportedChains]);
 
   // Autoconnect to Family wallet if available
   useEffect(() => {
@@ -201,11 +332,28 @@ export const OpenfortProvider = ({
     }
   }, [injectedConnector]);
 
-  const log = debugMode ? console.log : () => { };
+  const log = modalLogger.debug;
 
   useEffect(() => {
     log("ROUTE", route)
-  }, [route]);
+  }, [route, log]);
+
+  // Lifecycle events of the modal
+  const wasOpen = useRef(open);
+  const previousRoute = useRef(route);
+  useEffect(() => {
+    if (open && !wasOpen.current) events.emit('modal:opened', { route });
+    wasOpen.current = open;
+  }, [open, route, events]);
+
+  useEffect(() => {
+    if (previousRoute.current === route) return;
+    events.emit('modal:routeChanged', { route, previousRoute: previousRoute.current });
+    previousRoute.current = route;
+  }, [route, events]);
+
+  // The Openfort client is only created once, so nothing is rendered until the sandbox backend is loaded
+  if (isLoadingSandbox) return null;
 
   const value: ContextValue = {
     setTheme,
@@ -227,18 +375,22 @@ export const OpenfortProvider = ({
     errorMessage,
     debugMode,
     log,
-    displayError: (message: string | React.ReactNode | null, code?: any) => {
+    logger,
+    displayError: (message: string | React.ReactNode | null, code?: unknown) => {
       setErrorMessage(message);
-      console.log('---------OPENFORT DEBUG---------');
-      console.log(message);
-      if (code) console.table(code);
-      console.log('---------/OPENFORT DEBUG---------');
+      if (message) modalLogger.error(typeof message === 'string' ? message : 'Error displayed in the modal', ...(code ? [code] : []));
     },
     resize,
     triggerResize: () => onResize((prev) => prev + 1),
     walletConfig,
     overrides,
     thirdPartyAuth,
+    siwe,
+    events,
+    storage,
+    retryPolicy,
+    analytics,
+    trackAnalyticsEvent: analytics.track,
   };
 
   return createElement(
@@ -254,9 +406,11 @@ export const OpenfortProvider = ({
             shieldPublishableKey: walletConfig.shieldPublishableKey,
             debug: debugMode,
           } : undefined}
-          overrides={overrides}
+          overrides={storageProp ? { ...overrides, storage: storageProp } : overrides}
           thirdPartyAuth={thirdPartyAuth}
-          debugMode={debugMode}
+          client={client ?? sandboxClient}
+          initialState={initialState}
+          ssr={ssr}
           onConnect={onConnect}
           onDisconnect={onDisconnect}
         >
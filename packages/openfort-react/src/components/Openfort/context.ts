@@ -14,6 +14,8 @@ import { ValueOf } from 'viem/_types/types/utils';
 import {
   useConnectCallbackProps
 } from '../../hooks/useConnectCallback';
+import { AnalyticsTracker, Logger, OpenfortEventBus, OpenfortStorage, RetryPolicy } from '../../openfort/core';
+import { SiweOptions } from '../../siwe/create-siwe-message';
 import { OpenfortUIOptionsExtended, OpenfortWalletConfig, routes } from './types';
 
 type Connector = {
@@ -22,6 +24,8 @@ type Connector = {
 } | {
   id: OAuthProvider;
   type: "oauth";
+  /** Popup opened by the click on the provider, browsers block popups opened later. */
+  popup?: Window | null;
 };
 export type ErrorMessage = string | React.ReactNode | null;
 
@@ -40,14 +44,23 @@ export type ContextValue = {
   setConnector: React.Dispatch<React.SetStateAction<Connector>>;
   errorMessage: ErrorMessage;
   debugMode?: boolean;
-  log: (...props: any) => void;
-  displayError: (message: string | React.ReactNode | null, code?: any) => void;
+  /** Logs debug information in the `modal` namespace. */
+  log: Logger['debug'];
+  logger: Logger;
+  displayError: (message: string | React.ReactNode | null, code?: unknown) => void;
   resize: number;
   triggerResize: () => void;
   uiConfig: OpenfortUIOptionsExtended;
   walletConfig?: OpenfortWalletConfig;
   overrides?: SDKOverrides;
   thirdPartyAuth?: ThirdPartyAuthConfiguration;
+  siwe?: SiweOptions;
+  events: OpenfortEventBus;
+  storage: OpenfortStorage;
+  retryPolicy?: RetryPolicy;
+  analytics: AnalyticsTracker;
+  /** Reports a funnel event on the current step of the modal. */
+  trackAnalyticsEvent: AnalyticsTracker['track'];
 } & useConnectCallbackProps;
 
 export const Openfortcontext = createContext<ContextValue | null>(null);
@@ -37,6 +37,7 @@ export const routes = {
   DOWNLOAD: 'download',
   PROFILE: 'profile',
   SWITCHNETWORKS: 'switchNetworks',
+  SESSION_TIMEOUT: 'sessionTimeout',
 } as const;
 
 export enum UIAuthProvider {
@@ -45,8 +46,8 @@ export enum UIAuthProvider {
   FACEBOOK = "facebook",
 
   DISCORD = "discord",
-  // EPIC_GAMES = "epic_games",
-  // LINE = "line",
+  EPIC_GAMES = "epic_games",
+  LINE = "line",
   // TELEGRAM = "telegram", // Telegram is not working yet
 
   // Extended Providers
@@ -60,6 +61,8 @@ export const socialProviders = [
   UIAuthProvider.TWITTER,
   UIAuthProvider.FACEBOOK,
   UIAuthProvider.DISCORD,
+  UIAuthProvider.EPIC_GAMES,
+  UIAuthProvider.LINE,
 ]
 
 type PolicyConfig = string | Record<number, string>;
@@ -114,6 +117,13 @@ export type WalletRecoveryOptions = {
   defaultMethod?: RecoveryMethod;
 }
 
+export type SessionOptions = {
+  /** Inactivity in milliseconds after which the user is signed out and the embedded signer is locked. */
+  idleTimeout: number;
+  /** Milliseconds before the timeout at which the modal shows a countdown. No warning is shown when omitted. */
+  warningBefore?: number;
+}
+
 export type ConnectUIOptions = {
   theme?: Theme;
   mode?: Mode;
@@ -138,6 +148,12 @@ export type ConnectUIOptions = {
   /** Blur intensity applied to the background when the modal is open. */
   overlayBlur?: number;
   walletRecovery?: WalletRecoveryOptions;
+  session?: SessionOptions;
+  /**
+   * How the modal signs in with social providers, `popup` keeps the state of the page.
+   * Falls back to `redirect` when the browser blocks the popup.
+   */
+  oauthMode?: 'redirect' | 'popup';
 
 } & Partial<OpenfortUIOptions>;
 
@@ -177,4 +193,6 @@ export type OpenfortUIOptionsExtended = {
   /** Blur intensity applied to the background when the modal is open. */
   overlayBlur?: number;
   walletRecovery: WalletRecoveryOptionsExtended;
+  session?: SessionOptions;
+  oauthMode: 'redirect' | 'popup';
 } & OpenfortUIOptions;
@@ -2,6 +2,7 @@ import { AuthActionRequiredActions } from '@openfort/openfort-js';
 import { AnimatePresence, Variants, motion } from 'framer-motion';
 import React from "react";
 import { emailToVerifyLocalStorageKey } from '../../../constants/openfort';
+import { getOpenfortErrorCode, OpenfortErrorCode } from '../../../openfort/core';
 import { useOpenfortCore } from '../../../openfort/useOpenfort';
 import Button from "../../Common/Button";
 import { TextLinkButton } from "../../Common/Button/styles";
@@ -15,6 +16,12 @@ import { useOpenfort } from '../../Openfort/useOpenfort';
 
 // TODO: Localize
 
+const loginErrorMessages: Partial<Record<OpenfortErrorCode, string>> = {
+  [OpenfortErrorCode.RATE_LIMITED]: "Too many attempts, please try again later.",
+  [OpenfortErrorCode.NETWORK]: "Network error, please check your connection.",
+  [OpenfortErrorCode.SERVER_ERROR]: "Something went wrong, please try again.",
+};
+
 const textVariants: Variants = {
   initial: {
     opacity: 0,
@@ -39,7 +46,7 @@ const EmailLogin: React.FC = () => {
   const [email, setEmail] = React.useState("");
   const [password, setPassword] = React.useState("");
 
-  const { setRoute, log } = useOpenfort();
+  const { setRoute, log, storage } = useOpenfort();
   const { client } = useOpenfortCore();
 
   const [loginLoading, setLoginLoading] = React.useState(false);
@@ -52,10 +59,13 @@ const EmailLogin: React.FC = () => {
       password
     }).catch((e) => {
       log("Login error:", e);
+      const code = getOpenfortErrorCode(e);
       setLoginLoading(false);
-      setLoginError("Invalid email or password.");
+      setLoginError((code && loginErrorMessages[code]) || "Invalid email or password.");
+      return null;
     }).then((user) => {
       // log("User", user);
+      if (user === null) return;
       if (!user) {
         setLoginLoading(false);
         setLoginError("Invalid email or password.");
@@ -64,7 +74,7 @@ const EmailLogin: React.FC = () => {
 
       if ("action" in user && user.action === AuthActionRequiredActions.ACTION_VERIFY_EMAIL) {
         log("User needs to verify email");
-        localStorage.setItem(emailToVerifyLocalStorageKey, email);
+        storage.save(emailToVerifyLocalStorageKey, email);
         setRoute(routes.EMAIL_VERIFICATION);
       } else {
         setRoute(routes.RECOVER);
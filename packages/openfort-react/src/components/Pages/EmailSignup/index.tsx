@@ -6,9 +6,10 @@ import Input from "../../Common/Input";
 import { OrDivider } from "../../Common/Modal";
 import { ModalBody, PageContent } from "../../Common/Modal/styles";
 import { useOpenfort } from '../../Openfort/useOpenfort';
-import { routes } from "../../Openfort/types";
+import { routes, UIAuthProvider } from "../../Openfort/types";
 import { emailToVerifyLocalStorageKey } from "../../../constants/openfort";
 import { AuthActionRequiredActions } from "@openfort/openfort-js";
+import { getAnalyticsErrorType } from "../../../openfort/core";
 
 // TODO: Localize
 
@@ -17,7 +18,7 @@ const EmailSignup: React.FC = () => {
   const [password, setPassword] = React.useState("");
   const [username, setUsername] = React.useState("");
 
-  const { setRoute, triggerResize, log, uiConfig: options } = useOpenfort();
+  const { setRoute, triggerResize, log, uiConfig: options, storage, trackAnalyticsEvent } = useOpenfort();
   const { client } = useOpenfortCore();
 
   const [signupLoading, setSignupLoading] = React.useState(false);
@@ -25,6 +26,7 @@ const EmailSignup: React.FC = () => {
 
   const handleSubmit = async () => {
     setSignupLoading(true);
+    trackAnalyticsEvent('email_signup_submitted', { provider: UIAuthProvider.EMAIL });
     client.auth.signUpWithEmailPassword({
       email,
       password,
@@ -35,15 +37,18 @@ const EmailSignup: React.FC = () => {
       }
     }).catch((e) => {
       log("Signup error:", e);
+      trackAnalyticsEvent('email_signup_failed', { provider: UIAuthProvider.EMAIL, errorType: getAnalyticsErrorType(e) });
       setSignupLoading(false);
       setSignupError(true);
       triggerResize();
     }).then((user) => {
       if (user) {
         if ("action" in user && user.action === AuthActionRequiredActions.ACTION_VERIFY_EMAIL) {
-          localStorage.setItem(emailToVerifyLocalStorageKey, email);
+          storage.save(emailToVerifyLocalStorageKey, email);
+          trackAnalyticsEvent('email_verification_pending', { provider: UIAuthProvider.EMAIL });
           setRoute(routes.EMAIL_VERIFICATION);
         } else {
+          trackAnalyticsEvent('email_signup_completed', { provider: UIAuthProvider.EMAIL });
           setRoute(routes.RECOVER);
         }
       }
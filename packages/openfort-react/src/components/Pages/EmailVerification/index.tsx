@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useState } from "react";
 import { EmailIcon } from "../../../assets/icons";
 import wave from "../../../assets/wave";
 import { useOpenfortCore } from '../../../openfort/useOpenfort';
@@ -20,11 +20,11 @@ type VerificationResponse = {
 
 const EmailVerification: React.FC = () => {
   const { client } = useOpenfortCore();
-  const { setRoute, log } = useOpenfort();
+  const { setRoute, log, storage } = useOpenfort();
 
   const [loading, setLoading] = useState(true);
   const [shouldSendEmailVerification, setShouldSendEmailVerification] = useState<false | string>(false);
-  const emailInStorage = useMemo(() => localStorage.getItem(emailToVerifyLocalStorageKey), [])
+  const [emailInStorage, setEmailInStorage] = useState<string | null>(null);
   const [verificationResponse, setVerificationResponse] = useState<VerificationResponse | null>(null);
 
   const sendEmailVerification = async (email: string) => {
@@ -57,14 +57,17 @@ const EmailVerification: React.FC = () => {
 
     if (!openfortEmailVerificationUI) {
       // Send email verification flow
-      if (!emailInStorage) {
-        setRoute(routes.EMAIL_LOGIN);
-        return;
-      }
+      storage.get(emailToVerifyLocalStorageKey).then((email) => {
+        if (!email) {
+          setRoute(routes.EMAIL_LOGIN);
+          return;
+        }
 
-      setShouldSendEmailVerification(emailInStorage);
-      localStorage.removeItem(emailToVerifyLocalStorageKey);
-      setLoading(false);
+        setEmailInStorage(email);
+        setShouldSendEmailVerification(email);
+        storage.remove(emailToVerifyLocalStorageKey);
+        setLoading(false);
+      });
       return;
     }
 
@@ -9,7 +9,7 @@ import { routes } from "../../Openfort/types";
 
 const Loading: React.FC = () => {
   const { setRoute, walletConfig } = useOpenfort();
-  const { isLoading, user, needsRecovery } = useOpenfortCore();
+  const { isLoading, user, needsRecovery, isReconnecting } = useOpenfortCore();
   const { address } = useAccount();
   const [isFirstFrame, setIsFirstFrame] = React.useState(true);
   const [retryCount, setRetryCount] = React.useState(0);
@@ -57,7 +57,7 @@ const Loading: React.FC = () => {
 
   return (
     <PageContent>
-      <Loader header="Redirecting" />
+      <Loader header={isReconnecting ? "Reconnecting" : "Redirecting"} />
     </PageContent>
   )
 }
@@ -1,16 +1,23 @@
-import { AuthPlayerResponse } from "@openfort/openfort-js";
-import { useMemo } from "react";
+import { AuthPlayerResponse, OAuthProvider } from "@openfort/openfort-js";
+import { AnimatePresence } from "framer-motion";
+import { useMemo, useState } from "react";
 import { EmailIcon } from "../../../assets/icons";
 import Logos, { providersLogos } from "../../../assets/logos";
 import Wallet from "../../../assets/wallet";
+import { useGuestAuth } from "../../../hooks/openfort/auth/useGuestAuth";
+import { LinkedAccount, useLinkedAccounts } from "../../../hooks/openfort/auth/useLinkedAccounts";
 import { useProviders } from "../../../hooks/openfort/useProviders";
 import { useOpenfortCore } from '../../../openfort/useOpenfort';
+import { OpenfortErrorCode } from "../../../types";
+import { truncateEthAddress } from "../../../utils";
 import { useWallets } from "../../../wallets/useWallets";
+import Button from "../../Common/Button";
 import FitText from "../../Common/FitText";
+import { ModalBody } from "../../Common/Modal/styles";
 import { routes } from "../../Openfort/types";
 import { useOpenfort } from '../../Openfort/useOpenfort';
 import { ProviderIcon as ProviderIconContainer } from "../Providers/styles";
-import { LinkedProviderButton, LinkedProviderContainer, ProvidersHeader } from "./styles";
+import { LinkedProviderButton, LinkedProviderContainer, ProvidersHeader, UnlinkActions, UnlinkConfirmation } from "./styles";
 
 const WalletIcon: React.FC<{ provider: AuthPlayerResponse['linkedAccounts'][0] }> = ({ provider }) => {
 
@@ -27,7 +34,7 @@ const WalletIcon: React.FC<{ provider: AuthPlayerResponse['linkedAccounts'][0] }
 }
 
 const ProviderIcon: React.FC<{ provider: AuthPlayerResponse['linkedAccounts'][0] }> = ({ provider }) => {
-  switch (provider.provider) {
+  switch (provider.provider as string) {
     case "email":
       return <EmailIcon />;
     case "wallet":
@@ -35,17 +42,37 @@ const ProviderIcon: React.FC<{ provider: AuthPlayerResponse['linkedAccounts'][0]
     case "google":
     case "twitter":
     case "facebook":
-      return providersLogos[provider.provider]
+    case "discord":
+    case "epic_games":
+    case "line":
+      return providersLogos[provider.provider as keyof typeof providersLogos]
     default:
       return <FitText>{provider.provider.substring(0, 4).toUpperCase()}</FitText>;
   }
 }
 
-const LinkedProvider: React.FC<{ provider: AuthPlayerResponse['linkedAccounts'][0] }> = ({ provider }) => {
+const providerNames: Record<string, string> = {
+  epic_games: "Epic Games",
+  line: "LINE",
+};
+
+const getProviderLabel = (provider: LinkedAccount) => {
+  if (provider.provider === "email" && provider.email) return provider.email;
+  if (provider.provider === "wallet" && provider.address) return truncateEthAddress(provider.address);
+  if (providerNames[provider.provider]) return providerNames[provider.provider];
+  return provider.provider.charAt(0).toUpperCase() + provider.provider.slice(1);
+}
+
+const LinkedProvider: React.FC<{
+  provider: AuthPlayerResponse['linkedAccounts'][0];
+  disabled: boolean;
+  onClick: () => void;
+}> = ({ provider, disabled, onClick }) => {
 
   return (
     <LinkedProviderButton
-      disabled={true} // TODO: on click, unlink provider
+      disabled={disabled}
+      onClick={onClick}
     >
       <ProviderIconContainer>
         <ProviderIcon provider={provider} />
@@ -69,8 +96,76 @@ const AddLinkedProviderButton: React.FC = () => {
 }
 
 
+const UnlinkProvider: React.FC<{ provider: LinkedAccount; onDone: () => void }> = ({ provider, onDone }) => {
+  const { unlinkOAuth, unlinkEmail, unlinkWallet, isLoading, error } = useLinkedAccounts();
+
+  const unlink = async () => {
+    const result = provider.provider === "email"
+      ? await unlinkEmail({ email: provider.email! })
+      : provider.provider === "wallet"
+        ? await unlinkWallet({ address: provider.address! })
+        : await unlinkOAuth({ provider: provider.provider as OAuthProvider });
+
+    if (!result.error) onDone();
+  }
+
+  return (
+    <UnlinkConfirmation
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      transition={{ duration: 0.2 }}
+    >
+      <ModalBody>
+        Unlink <strong>{getProviderLabel(provider)}</strong>? You will no longer be able to sign in with it.
+      </ModalBody>
+      {error && (
+        <ModalBody $error>
+          {error.code === OpenfortErrorCode.LAST_SIGN_IN_METHOD
+            ? "Link another sign-in method before removing this one."
+            : "Could not unlink this sign-in method, please try again."}
+        </ModalBody>
+      )}
+      <UnlinkActions>
+        <Button onClick={onDone} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={unlink} waiting={isLoading} disabled={isLoading}>
+          Unlink
+        </Button>
+      </UnlinkActions>
+    </UnlinkConfirmation>
+  )
+}
+
+// Linking a sign-in method to a guest keeps the same player, so the embedded wallet and its recovery are kept
+const GuestUpgrade: React.FC = () => {
+  const { setRoute } = useOpenfort();
+
+  return (
+    <>
+      <ProvidersHeader>
+        Guest account
+      </ProvidersHeader>
+      <ModalBody>
+        Sign up to keep your wallet and its assets when you sign out.
+      </ModalBody>
+      <Button onClick={() => setRoute(routes.PROVIDERS)}>
+        Sign up
+      </Button>
+    </>
+  )
+}
+
 export const LinkedProviders: React.FC = () => {
   const { user } = useOpenfortCore();
+  const { canUnlink } = useLinkedAccounts();
+  const { isGuest } = useGuestAuth();
+  const [providerToUnlink, setProviderToUnlink] = useState<LinkedAccount | null>(null);
+
+  if (isGuest) {
+    return <GuestUpgrade />;
+  }
 
   if (!user || !user.linkedAccounts) {
     return (
@@ -88,11 +183,26 @@ export const LinkedProviders: React.FC = () => {
       <LinkedProviderContainer>
         {
           user.linkedAccounts.map((provider, i) => (
-            <LinkedProvider key={provider.provider + i} provider={provider} />
+            <LinkedProvider
+              key={provider.provider + i}
+              provider={provider}
+              // The last sign-in method cannot be unlinked, the user would be locked out
+              disabled={!canUnlink}
+              onClick={() => setProviderToUnlink(provider)}
+            />
           ))
         }
         <AddLinkedProviderButton />
       </LinkedProviderContainer>
+      <AnimatePresence initial={false}>
+        {providerToUnlink && (
+          <UnlinkProvider
+            key={providerToUnlink.provider + (providerToUnlink.email ?? providerToUnlink.address ?? '')}
+            provider={providerToUnlink}
+            onDone={() => setProviderToUnlink(null)}
+          />
+        )}
+      </AnimatePresence>
     </>
   );
 }
\ No newline at end of file
@@ -89,3 +89,21 @@ export const ProvidersHeader = styled(motion.h3)`
   font-weight: bold;
   color: var(--ck-body-color);
 `;
+
+export const UnlinkConfirmation = styled(motion.div)`
+  display: flex;
+  flex-direction: column;
+  gap: 8px;
+  margin-top: 12px;
+  text-align: center;
+`;
+
+export const UnlinkActions = styled.div`
+  display: flex;
+  gap: 8px;
+
+  > * {
+    flex: 1;
+    margin: 0;
+  }
+`;
@@ -3,11 +3,15 @@ import React, { useEffect } from "react";
 import { useAccount, useDisconnect } from "wagmi";
 import { EmailIcon, GuestIcon, } from "../../../assets/icons";
 import Logos, { OtherSocials, providersLogos } from "../../../assets/logos";
+import { useGuestAuth } from "../../../hooks/openfort/auth/useGuestAuth";
 import { useProviders } from "../../../hooks/openfort/useProviders";
+import { useLogger } from "../../../hooks/useLogger";
+import { openOAuthPopup } from '../../../openfort/core';
+import { OpenfortError, OpenfortErrorType } from '../../../types';
 import { useOpenfortCore } from '../../../openfort/useOpenfort';
 import Button from "../../Common/Button";
 import Loader from "../../Common/Loading";
-import { PageContent } from "../../Common/Modal/styles";
+import { ModalBody, PageContent } from "../../Common/Modal/styles";
 import PoweredByFooter from "../../Common/PoweredByFooter";
 import { UIAuthProvider, routes, socialProviders } from "../../Openfort/types";
 import { useOpenfort } from '../../Openfort/useOpenfort';
@@ -38,9 +42,10 @@ const ProviderButton: React.FC<{
 
 const GuestButton: React.FC = () => {
   const { signUpGuest } = useOpenfortCore();
-  const { setRoute } = useOpenfort();
+  const { setRoute, trackAnalyticsEvent } = useOpenfort();
 
   const handleClick = () => {
+    trackAnalyticsEvent('provider_selected', { provider: UIAuthProvider.GUEST });
     signUpGuest();
     setRoute(routes.RECOVER);
   }
@@ -56,9 +61,15 @@ const GuestButton: React.FC = () => {
 }
 
 const WalletButton: React.FC = () => {
-  const { setRoute } = useOpenfort();
+  const { setRoute, trackAnalyticsEvent } = useOpenfort();
+
+  const handleClick = () => {
+    trackAnalyticsEvent('provider_selected', { provider: UIAuthProvider.WALLET });
+    setRoute(routes.CONNECTORS);
+  }
+
   return <ProviderButton
-    onClick={() => setRoute(routes.CONNECTORS)}
+    onClick={handleClick}
     icon={<Logos.OtherWallets />}
   >
     Wallet
@@ -66,11 +77,16 @@ const WalletButton: React.FC = () => {
 }
 
 const EmailButton: React.FC = () => {
-  const { setRoute } = useOpenfort();
+  const { setRoute, trackAnalyticsEvent } = useOpenfort();
   const { user } = useOpenfortCore();
 
+  const handleClick = () => {
+    trackAnalyticsEvent('provider_selected', { provider: UIAuthProvider.EMAIL });
+    setRoute(user ? routes.LINK_EMAIL : routes.EMAIL_LOGIN);
+  }
+
   return <ProviderButton
-    onClick={() => setRoute(user ? routes.LINK_EMAIL : routes.EMAIL_LOGIN)}
+    onClick={handleClick}
     icon={<EmailIcon />}
   >
     Email
@@ -78,11 +94,18 @@ const EmailButton: React.FC = () => {
 }
 
 const AuthProviderButton: React.FC<{ provider: OAuthProvider, title?: string, icon?: React.ReactNode }> = ({ provider, title = provider + " login", icon }) => {
-  const { setRoute, setConnector } = useOpenfort();
+  const { setRoute, setConnector, trackAnalyticsEvent, uiConfig, log } = useOpenfort();
 
   const handleClick = () => {
+    trackAnalyticsEvent('provider_selected', { provider });
+
+    // Opened here, browsers only allow popups in response to a click
+    const withPopup = uiConfig.oauthMode === 'popup';
+    const popup = withPopup ? openOAuthPopup() : null;
+    if (withPopup && !popup) log("OAuth popup was blocked, falling back to a redirect");
+
     setRoute(routes.CONNECT);
-    setConnector({ id: provider, type: "oauth" });
+    setConnector({ id: provider, type: "oauth", popup });
   }
 
   return (
@@ -135,6 +158,22 @@ export const ProviderButtonSwitch: React.FC<{ provider: UIAuthProvider }> = ({ p
           icon={providersLogos[provider]}
         />
       )
+    case UIAuthProvider.EPIC_GAMES:
+      return (
+        <AuthProviderButton
+          provider={OAuthProvider.EPIC_GAMES}
+          title="Epic Games"
+          icon={providersLogos[provider]}
+        />
+      )
+    case UIAuthProvider.LINE:
+      return (
+        <AuthProviderButton
+          provider={OAuthProvider.LINE}
+          title="LINE"
+          icon={providersLogos[provider]}
+        />
+      )
     default:
       throw new Error(`NOT IMPLEMENTED: ${provider}`);
   }
@@ -163,6 +202,31 @@ const AddressButNoUserCase: React.FC = () => {
   )
 }
 
+// Users of a third party identity provider sign in with it, the modal only handles their wallet and profile
+const ThirdPartyAuthCase: React.FC = () => {
+  const { user } = useOpenfortCore();
+  const { setRoute, setOpen } = useOpenfort();
+  const logger = useLogger('auth');
+
+  useEffect(() => {
+    // The loading page sends signed in users to the wallet recovery or the profile
+    if (user) {
+      setRoute(routes.LOADING);
+      return;
+    }
+
+    setOpen(false);
+    logger.error('When using external third party auth providers, openfort Auth providers are not available. Sign in with the identity provider, `useThirdPartyAuth` then signs in to Openfort.',
+      new OpenfortError('Openfort auth providers are not available', OpenfortErrorType.CONFIGURATION_ERROR));
+  }, [user, setRoute, setOpen, logger])
+
+  return (
+    <PageContent>
+      <Loader header="Redirecting" />
+    </PageContent>
+  )
+}
+
 const SocialProvidersButton = () => {
   const { setRoute } = useOpenfort();
   return (
@@ -180,8 +244,14 @@ const Providers: React.FC = () => {
   const maxProviders = 4
 
   const { user } = useOpenfortCore();
+  const { thirdPartyAuth } = useOpenfort();
   const { address } = useAccount();
   const { allProviders, availableProviders } = useProviders();
+  const { isGuest } = useGuestAuth();
+
+  if (thirdPartyAuth) {
+    return <ThirdPartyAuthCase />
+  }
 
   if (address && !user) {
     return <AddressButNoUserCase />
@@ -193,6 +263,14 @@ const Providers: React.FC = () => {
 
   return (
     <PageContent>
+      {
+        // TODO: Localize
+        isGuest && (
+          <ModalBody style={{ marginBottom: 12 }}>
+            Sign up to keep your guest wallet, it stays linked to your new account.
+          </ModalBody>
+        )
+      }
       {
         (filteredProviders).map((auth) => (
           <ProviderButtonSwitch key={auth} provider={auth} />
@@ -7,6 +7,7 @@ import { FingerPrintIcon, GuestIcon, KeyIcon, LockIcon, ShieldIcon } from "../..
 import { embeddedWalletId } from "../../../constants/openfort";
 import { UserWallet, useWallets } from "../../../hooks/openfort/useWallets";
 import { useEnsFallbackConfig } from "../../../hooks/useEnsFallbackConfig";
+import { getAnalyticsErrorType } from '../../../openfort/core';
 import { useOpenfortCore } from '../../../openfort/useOpenfort';
 import { truncateEthAddress } from "../../../utils";
 import Button from "../../Common/Button";
@@ -28,7 +29,7 @@ import { ProviderIcon, ProviderLabel, ProvidersButton } from "../Providers/style
 const RecoverPasswordWallet = ({ wallet }: { wallet: UserWallet }) => {
   const [recoveryPhrase, setRecoveryPhrase] = useState("");
   const [recoveryError, setRecoveryError] = useState<false | string>(false);
-  const { triggerResize, uiConfig: options, log } = useOpenfort();
+  const { triggerResize, uiConfig: options, log, trackAnalyticsEvent } = useOpenfort();
   const [loading, setLoading] = useState(false);
   const { setActiveWallet } = useWallets();
 
@@ -46,8 +47,10 @@ const RecoverPasswordWallet = ({ wallet }: { wallet: UserWallet }) => {
     setLoading(false);
 
     if (error) {
+      trackAnalyticsEvent('wallet_recovery_failed', { provider: RecoveryMethod.PASSWORD, errorType: getAnalyticsErrorType(error) });
       setRecoveryError(error.message || "There was an error recovering your account");
     } else {
+      trackAnalyticsEvent('wallet_recovered', { provider: RecoveryMethod.PASSWORD });
       log("Recovery success");
     }
   };
@@ -124,18 +127,24 @@ const RecoverPasswordWallet = ({ wallet }: { wallet: UserWallet }) => {
 }
 
 const RecoverPasskeyWallet = ({ wallet }: { wallet: UserWallet }) => {
-  const { triggerResize, uiConfig: options, log } = useOpenfort();
+  const { triggerResize, uiConfig: options, log, trackAnalyticsEvent } = useOpenfort();
   const { setActiveWallet, error: recoveryError, isConnecting: loading } = useWallets();
   const [shouldRecoverWallet, setShouldRecoverWallet] = useState(false);
 
   const recoverWallet = async () => {
-    setActiveWallet({
+    const { error } = await setActiveWallet({
       walletId: embeddedWalletId,
       recovery: {
         recoveryMethod: RecoveryMethod.PASSKEY,
       },
       address: wallet.address,
     })
+
+    if (error) {
+      trackAnalyticsEvent('wallet_recovery_failed', { provider: RecoveryMethod.PASSKEY, errorType: getAnalyticsErrorType(error) });
+    } else {
+      trackAnalyticsEvent('wallet_recovered', { provider: RecoveryMethod.PASSKEY });
+    }
   };
 
   useEffect(() => {
@@ -182,7 +191,7 @@ const RecoverPasskeyWallet = ({ wallet }: { wallet: UserWallet }) => {
 const RecoverAutomaticWallet = ({ walletAddress }: { walletAddress: Hex }) => {
   const { embeddedState } = useOpenfortCore();
   const { setActiveWallet } = useWallets();
-  const { log } = useOpenfort();
+  const { log, trackAnalyticsEvent } = useOpenfort();
   const [error, setError] = useState<false | string>(false);
 
   useEffect(() => {
@@ -195,8 +204,11 @@ const RecoverAutomaticWallet = ({ walletAddress }: { walletAddress: Hex }) => {
         })
 
         if (response.error) {
+          trackAnalyticsEvent('wallet_recovery_failed', { provider: RecoveryMethod.AUTOMATIC, errorType: getAnalyticsErrorType(response.error) });
           setError(response.error.message || "There was an error recovering your account");
           log("Error recovering wallet", response.error);
+        } else {
+          trackAnalyticsEvent('wallet_recovered', { provider: RecoveryMethod.AUTOMATIC });
         }
       }
     })();
@@ -223,7 +235,7 @@ const CreateWalletAutomaticRecovery = () => {
   const { embeddedState } = useOpenfortCore();
   const { createWallet } = useWallets();
   const [shouldCreateWallet, setShouldCreateWallet] = useState(false);
-  const { log } = useOpenfort();
+  const { log, trackAnalyticsEvent } = useOpenfort();
 
   useEffect(() => {
     // To ensure the wallet is created only once
@@ -232,7 +244,10 @@ const CreateWalletAutomaticRecovery = () => {
         log("Creating wallet Automatic recover");
         const response = await createWallet()
         if (response.error) {
+          trackAnalyticsEvent('wallet_creation_failed', { provider: RecoveryMethod.AUTOMATIC, errorType: getAnalyticsErrorType(response.error) });
           log("Error creating wallet", response.error);
+        } else {
+          trackAnalyticsEvent('wallet_created', { provider: RecoveryMethod.AUTOMATIC });
         }
       })();
     }
@@ -300,7 +315,7 @@ const CreateWalletPasskeyRecovery = ({ onChangeMethod }: { onChangeMethod: (meth
   const { triggerResize } = useOpenfort();
   const { createWallet, error: recoveryError } = useWallets();
   const [shouldCreateWallet, setShouldCreateWallet] = useState(false);
-  const { log } = useOpenfort();
+  const { log, trackAnalyticsEvent } = useOpenfort();
   const { embeddedState } = useOpenfortCore();
 
   useEffect(() => {
@@ -314,8 +329,11 @@ const CreateWalletPasskeyRecovery = ({ onChangeMethod }: { onChangeMethod: (meth
           }
         })
         if (response.error) {
+          trackAnalyticsEvent('wallet_creation_failed', { provider: RecoveryMethod.PASSKEY, errorType: getAnalyticsErrorType(response.error) });
           log("Error creating wallet", response.error);
           setShouldCreateWallet(false);
+        } else {
+          trackAnalyticsEvent('wallet_created', { provider: RecoveryMethod.PASSKEY });
         }
       })();
     }
@@ -350,7 +368,7 @@ const CreateWalletPasskeyRecovery = ({ onChangeMethod }: { onChangeMethod: (meth
 const CreateWalletPasswordRecovery = ({ onChangeMethod }: { onChangeMethod: (method: RecoveryMethod | "other") => void }) => {
   const [recoveryPhrase, setRecoveryPhrase] = useState("");
   const [recoveryError, setRecoveryError] = useState<false | string>(false);
-  const { triggerResize, uiConfig: options, log } = useOpenfort();
+  const { triggerResize, uiConfig: options, log, trackAnalyticsEvent } = useOpenfort();
   const [showPasswordIsTooWeakError, setShowPasswordIsTooWeakError] = useState(false);
   const [loading, setLoading] = useState(false);
   const { createWallet } = useWallets();
@@ -373,8 +391,10 @@ const CreateWalletPasswordRecovery = ({ onChangeMethod }: { onChangeMethod: (met
     setLoading(false);
 
     if (error) {
+      trackAnalyticsEvent('wallet_creation_failed', { provider: RecoveryMethod.PASSWORD, errorType: getAnalyticsErrorType(error) });
       setRecoveryError(error.message || "There was an error recovering your account");
     } else {
+      trackAnalyticsEvent('wallet_created', { provider: RecoveryMethod.PASSWORD });
       log("Recovery success");
     }
   };
@@ -558,24 +578,29 @@ const SelectWalletToRecover = ({ wallets }: { wallets: UserWallet[] }) => {
 }
 
 const CreateWallet = () => {
-  const { uiConfig, triggerResize } = useOpenfort();
+  const { uiConfig, triggerResize, trackAnalyticsEvent } = useOpenfort();
   const [userSelectedMethod, setUserSelectedMethod] = useState<RecoveryMethod | "other" | null>(null);
 
   useEffect(() => {
     triggerResize();
   }, [userSelectedMethod])
 
+  const selectMethod = (selectedMethod: RecoveryMethod | "other") => {
+    if (selectedMethod !== "other") trackAnalyticsEvent('recovery_method_selected', { provider: selectedMethod });
+    setUserSelectedMethod(selectedMethod);
+  }
+
   const method = userSelectedMethod ?? uiConfig.walletRecovery.defaultMethod;
 
   switch (method) {
     case RecoveryMethod.PASSWORD:
-      return <CreateWalletPasswordRecovery onChangeMethod={setUserSelectedMethod} />
+      return <CreateWalletPasswordRecovery onChangeMethod={selectMethod} />
     case RecoveryMethod.AUTOMATIC:
       return <CreateWalletAutomaticRecovery />
     case RecoveryMethod.PASSKEY:
-      return <CreateWalletPasskeyRecovery onChangeMethod={setUserSelectedMethod} />
+      return <CreateWalletPasskeyRecovery onChangeMethod={selectMethod} />
     case "other":
-      return <ChooseRecoveryMethod onChangeMethod={setUserSelectedMethod} />
+      return <ChooseRecoveryMethod onChangeMethod={selectMethod} />
     default:
       console.error("Unsupported recovery method: " + userSelectedMethod + uiConfig.walletRecovery.defaultMethod);
       return null;
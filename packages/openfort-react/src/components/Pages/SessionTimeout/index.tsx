@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from "react";
+import { useOpenfortCore } from '../../../openfort/useOpenfort';
+import Button from "../../Common/Button";
+import { TextLinkButton } from "../../Common/Button/styles";
+import { ModalBody, ModalContent, ModalH1, PageContent } from "../../Common/Modal/styles";
+import { useOpenfort } from '../../Openfort/useOpenfort';
+
+// TODO: Localize
+
+const formatRemaining = (milliseconds: number) => {
+  const seconds = Math.max(Math.ceil(milliseconds / 1000), 0);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+const SessionTimeout: React.FC = () => {
+  const { setOpen } = useOpenfort();
+  const { sessionExpiresAt, extendSession, logout } = useOpenfortCore();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const staySignedIn = () => {
+    extendSession();
+    setOpen(false);
+  }
+
+  const signOut = () => {
+    setOpen(false);
+    logout();
+  }
+
+  return (
+    <PageContent>
+      <ModalContent style={{ paddingBottom: 0 }}>
+        <ModalH1 $small>
+          Are you still there?
+        </ModalH1>
+        <ModalBody>
+          {sessionExpiresAt
+            ? <>For your security, you will be signed out in <b>{formatRemaining(sessionExpiresAt - now)}</b>.</>
+            : "For your security, you will be signed out soon."
+          }
+        </ModalBody>
+        <Button onClick={staySignedIn}>
+          Stay signed in
+        </Button>
+        <TextLinkButton onClick={signOut}>
+          Sign out now
+        </TextLinkButton>
+      </ModalContent>
+    </PageContent>
+  )
+}
+
+export default SessionTimeout;
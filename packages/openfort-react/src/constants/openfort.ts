@@ -1,2 +1,4 @@
 export const embeddedWalletId = 'xyz.openfort';
 export const emailToVerifyLocalStorageKey = "openfort:email-to-verify";
+// Storage key of the recovered embedded account, the signer is locked when it is removed
+export const embeddedAccountStorageKey = "openfort.account";
@@ -0,0 +1,8 @@
+import { OpenfortDevtools as Devtools, OpenfortDevtoolsProps } from './components/Devtools';
+
+export type { OpenfortDevtoolsProps } from './components/Devtools';
+
+// Bundlers replace `process.env.NODE_ENV` and drop the panel from production builds
+export const OpenfortDevtools: (props: OpenfortDevtoolsProps) => JSX.Element | null = process.env.NODE_ENV !== 'development'
+  ? () => null
+  : Devtools;
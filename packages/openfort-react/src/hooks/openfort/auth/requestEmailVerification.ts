@@ -1,11 +1,16 @@
+import { oauthPopupParam } from "../../../openfort/core";
+
 export const buildCallbackUrl = ({
   email,
   callbackUrl,
   provider,
+  popup,
 }: {
   email?: string,
   callbackUrl?: string,
   provider: string,
+  /** Marks the callback as the end of an OAuth popup, see `completeOAuthPopup`. */
+  popup?: boolean,
 }) => {
   if (callbackUrl && !callbackUrl.startsWith("http")) {
     callbackUrl = `${window.location.origin}${callbackUrl.startsWith("/") ? "" : "/"}${callbackUrl}`;
@@ -16,6 +21,9 @@ export const buildCallbackUrl = ({
   if (email) {
     redirectUrl.searchParams.append("email", email);
   }
+  if (popup) {
+    redirectUrl.searchParams.append(oauthPopupParam, "true");
+  }
 
   return redirectUrl.toString();
 };
@@ -1,8 +1,9 @@
 import { useCallback, useEffect, useState } from "react";
-import { useOpenfort } from "../../../components/Openfort/useOpenfort";
+import { useLogger } from "../../useLogger";
 import { BaseFlowState, mapStatus } from "./status";
+import { completeOAuthPopup } from "../../../openfort/core";
 import { useOpenfortCore } from "../../../openfort/useOpenfort";
-import { OpenfortHookOptions, OpenfortError, OpenfortErrorType } from "../../../types";
+import { OpenfortHookOptions, OpenfortError, OpenfortErrorCode, OpenfortErrorType } from "../../../types";
 import { onError, onSuccess } from "../hookConsistency";
 import { UIAuthProvider } from "../../../components/Openfort/types";
 import { CreateWalletPostAuthOptions, useConnectToWalletPostAuth } from "./useConnectToWalletPostAuth";
@@ -93,7 +94,8 @@ export const useAuthCallback = ({
   enabled = true, // Automatically handle OAuth and email callback
   ...hookOptions
 }: UseAuthCallbackOptions = {}) => {
-  const { log } = useOpenfort();
+  const logger = useLogger('auth');
+  const log = logger.debug;
 
   const [provider, setProvider] = useState<UIAuthProvider | null>(null);
   const [email, setEmail] = useState<string | null>(null);
@@ -117,6 +119,9 @@ export const useAuthCallback = ({
     if (!enabled) return;
 
     (async () => {
+      // The page that opened the OAuth popup stores the credentials
+      if (completeOAuthPopup()) return;
+
       // redirectUrl is not working with query params OF-1013
       const fixedUrl = window.location.href.replaceAll("?", "&").replace("&", "?");
       const url = new URL(fixedUrl);
@@ -134,11 +139,11 @@ export const useAuthCallback = ({
         const email = url.searchParams.get("email");
 
         if (!state || !email) {
-          console.error("No state or email found in URL");
+          logger.error("No state or email found in URL");
           onError({
             hookOptions,
             options: {},
-            error: new OpenfortError("No state or email found in URL", OpenfortErrorType.AUTHENTICATION_ERROR),
+            error: new OpenfortError("No state or email found in URL", OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.INVALID_INPUT }),
           });
           return;
         }
@@ -177,7 +182,7 @@ export const useAuthCallback = ({
         const refreshToken = url.searchParams.get("refresh_token");
 
         if (!player || !accessToken || !refreshToken) {
-          console.error(`Missing player id or access token or refresh token`, {
+          logger.error(`Missing player id or access token or refresh token`, {
             player,
             accessToken: accessToken ? accessToken.substring(0, 10) + "..." : accessToken,
             refreshToken,
@@ -186,7 +191,7 @@ export const useAuthCallback = ({
           onError({
             hookOptions,
             options: {},
-            error: new OpenfortError("Missing player id or access token or refresh token", OpenfortErrorType.AUTHENTICATION_ERROR),
+            error: new OpenfortError("Missing player id or access token or refresh token", OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.INVALID_INPUT }),
           });
 
           return;
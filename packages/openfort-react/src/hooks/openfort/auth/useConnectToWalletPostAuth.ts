@@ -2,6 +2,7 @@ import { EmbeddedAccount, RecoveryMethod } from "@openfort/openfort-js"
 import { useQueryClient } from "@tanstack/react-query"
 import { useCallback } from "react"
 import { useOpenfort } from "../../../components/Openfort/useOpenfort"
+import { useLogger } from "../../useLogger"
 import { embeddedWalletId } from "../../../constants/openfort"
 import { UserWallet, useWallets } from "../useWallets"
 import { useSignOut } from "./useSignOut"
@@ -45,6 +46,7 @@ export type CreateWalletPostAuthOptions = {
 export const useConnectToWalletPostAuth = () => {
   const { createWallet, setActiveWallet } = useWallets()
   const { walletConfig } = useOpenfort();
+  const logger = useLogger('auth');
   const { signOut } = useSignOut();
   const queryClient = useQueryClient();
 
@@ -61,7 +63,7 @@ export const useConnectToWalletPostAuth = () => {
     if (wallets.length === 0) {
       const createWalletResult = await createWallet();
       if (createWalletResult.error && signOutOnError) {
-        console.error("Error creating wallet:", createWalletResult.error);
+        logger.error("Error creating wallet:", createWalletResult.error);
         // If there was an error and we should log out, we can call the logout function
         await signOut();
         return {};
@@ -76,7 +78,7 @@ export const useConnectToWalletPostAuth = () => {
       });
 
       if (!setWalletResult.wallet || (setWalletResult.error && signOutOnError)) {
-        console.error("Error recovering wallet:", setWalletResult.error);
+        logger.error("Error recovering wallet:", setWalletResult.error);
         // If there was an error and we should log out, we can call the logout function
         await signOut();
       }
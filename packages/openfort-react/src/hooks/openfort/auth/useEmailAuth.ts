@@ -1,8 +1,8 @@
 import { type AuthPlayerResponse as OpenfortUser } from '@openfort/openfort-js';
 import { useCallback, useState } from "react";
-import { useOpenfort } from "../../../components/Openfort/useOpenfort";
+import { useLogger } from "../../useLogger";
 import { useOpenfortCore } from "../../../openfort/useOpenfort";
-import { OpenfortHookOptions, OpenfortError, OpenfortErrorType } from "../../../types";
+import { OpenfortHookOptions, OpenfortError, OpenfortErrorCode, OpenfortErrorType } from "../../../types";
 import { buildCallbackUrl } from "./requestEmailVerification";
 import { BaseFlowState, mapStatus } from "./status";
 import { onError, onSuccess } from '../hookConsistency';
@@ -133,7 +133,7 @@ export type UseEmailHookOptions = {
  * ```
  */
 export const useEmailAuth = (hookOptions: UseEmailHookOptions = {}) => {
-  const { log } = useOpenfort();
+  const { debug: log } = useLogger('auth');
   const { client, updateUser } = useOpenfortCore();
   const [requiresEmailVerification, setRequiresEmailVerification] = useState(false);
   const [status, setStatus] = useState<BaseFlowState>({
@@ -371,7 +371,7 @@ export const useEmailAuth = (hookOptions: UseEmailHookOptions = {}) => {
       const authToken = await client.getAccessToken();
       if (!authToken) {
         log("No token found");
-        const error = new OpenfortError("No token found", OpenfortErrorType.AUTHENTICATION_ERROR);
+        const error = new OpenfortError("No token found", OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.NOT_AUTHENTICATED });
         setStatus({
           status: 'error',
           error
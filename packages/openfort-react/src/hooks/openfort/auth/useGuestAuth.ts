@@ -1,20 +1,42 @@
 import { useCallback, useState } from "react";
-import { type AuthPlayerResponse as OpenfortUser } from '@openfort/openfort-js';
-import { OpenfortHookOptions, OpenfortError, OpenfortErrorType } from "../../../types";
+import { OAuthProvider, type AuthPlayerResponse as OpenfortUser } from '@openfort/openfort-js';
+import { OpenfortHookOptions, OpenfortError, OpenfortErrorCode, OpenfortErrorType } from "../../../types";
 import { BaseFlowState, mapStatus } from "./status";
 import { useOpenfortCore } from "../../../openfort/useOpenfort";
 import { onError, onSuccess } from "../hookConsistency";
 import { CreateWalletPostAuthOptions, useConnectToWalletPostAuth } from "./useConnectToWalletPostAuth";
 import { UserWallet } from "../useWallets";
+import { useEmailAuth } from "./useEmailAuth";
+import { OAuthMode, useOAuth } from "./useOAuth";
 
 export type GuestHookResult = {
   error?: OpenfortError;
   user?: OpenfortUser;
   wallet?: UserWallet;
+  /** Set by `upgrade` with an email when the email must be verified before it can be used to sign in. */
+  requiresEmailVerification?: boolean;
 };
 
 export type GuestHookOptions = OpenfortHookOptions<GuestHookResult> & CreateWalletPostAuthOptions;
 
+export type UpgradeGuestOptions = ({
+  method: 'email';
+  email: string;
+  password: string;
+  emailVerificationRedirectTo?: string;
+} | {
+  method: OAuthProvider;
+  redirectTo?: string;
+  /** `popup` keeps the state of the page, `redirect` finishes the upgrade on the page that calls `useAuthCallback`. */
+  mode?: OAuthMode;
+}) & OpenfortHookOptions<GuestHookResult>;
+
+// Guest players have no sign-in method of their own
+const isGuestUser = (user: OpenfortUser) => {
+  const linkedAccounts = user.linkedAccounts ?? [];
+  return linkedAccounts.length > 0 && linkedAccounts.every((account) => (account.provider as string) === 'guest');
+};
+
 /**
  * Hook for guest authentication operations
  *
@@ -48,6 +70,19 @@ export type GuestHookOptions = OpenfortHookOptions<GuestHookResult> & CreateWall
  *   }
  * };
  *
+ * // Turn the guest into a regular account, keeping the wallet
+ * const handleUpgrade = async () => {
+ *   if (!guestAuth.isGuest) return;
+ *   const { requiresEmailVerification } = await guestAuth.upgrade({
+ *     method: 'email',
+ *     email: 'user@example.com',
+ *     password: 'securePassword123',
+ *   });
+ *
+ *   // Or with a social account
+ *   await guestAuth.upgrade({ method: OAuthProvider.GOOGLE, mode: 'popup' });
+ * };
+ *
  * // Check authentication state
  * if (guestAuth.isLoading) {
  *   console.log('Creating guest account...');
@@ -76,11 +111,15 @@ export type GuestHookOptions = OpenfortHookOptions<GuestHookResult> & CreateWall
  */
 export const useGuestAuth = (hookOptions: GuestHookOptions = {}) => {
 
-  const { client, updateUser } = useOpenfortCore();
+  const { client, user, updateUser } = useOpenfortCore();
   const [status, setStatus] = useState<BaseFlowState>({
     status: "idle",
   });
   const { tryUseWallet } = useConnectToWalletPostAuth();
+  const { linkEmail } = useEmailAuth();
+  const { linkOauth } = useOAuth();
+
+  const isGuest = !!user && isGuestUser(user);
 
   const signUpGuest = useCallback(async (options: GuestHookOptions = {}): Promise<GuestHookResult> => {
     try {
@@ -123,8 +162,71 @@ export const useGuestAuth = (hookOptions: GuestHookOptions = {}) => {
     }
   }, [client, setStatus, updateUser, hookOptions]);
 
+  const upgrade = useCallback(async (options: UpgradeGuestOptions): Promise<GuestHookResult> => {
+    try {
+      setStatus({
+        status: 'loading',
+      });
+
+      if (!user) {
+        throw new OpenfortError("No guest user is signed in",
+          OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.NOT_AUTHENTICATED });
+      }
+      if (!isGuest) {
+        throw new OpenfortError("Only guest accounts can be upgraded, link the sign-in method instead", OpenfortErrorType.VALIDATION_ERROR);
+      }
+
+      // The credential is linked to the guest player, which keeps its embedded account and recovery method.
+      // The OAuth link is started first since the popup must open before any await.
+      const result: Omit<GuestHookResult, 'user'> = options.method === 'email'
+        ? await linkEmail({
+          email: options.email,
+          password: options.password,
+          emailVerificationRedirectTo: options.emailVerificationRedirectTo,
+        })
+        : await linkOauth({
+          provider: options.method,
+          redirectTo: options.redirectTo,
+          mode: options.mode,
+        });
+      if (result.error) throw result.error;
+
+      const upgradedUser = (await updateUser()) ?? undefined;
+
+      setStatus({
+        status: 'success',
+      });
+
+      return onSuccess<GuestHookResult>({
+        hookOptions,
+        options,
+        data: {
+          user: upgradedUser,
+          wallet: result.wallet,
+          requiresEmailVerification: result.requiresEmailVerification,
+        },
+      });
+    } catch (error) {
+      const openfortError = new OpenfortError("Failed to upgrade guest", OpenfortErrorType.AUTHENTICATION_ERROR, { error });
+
+      setStatus({
+        status: 'error',
+        error: openfortError,
+      });
+
+      return onError({
+        hookOptions,
+        options,
+        error: openfortError,
+      });
+    }
+  }, [user, isGuest, linkEmail, linkOauth, updateUser, hookOptions]);
+
   return {
     signUpGuest,
+    upgrade,
+    /** Whether the signed in user is a guest, who can be upgraded with `upgrade`. */
+    isGuest,
     ...mapStatus(status),
   }
 }
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { OAuthProvider, type AuthPlayerResponse as OpenfortUser } from '@openfort/openfort-js';
+import { useCallback, useMemo, useState } from "react";
+import { useOpenfortCore } from '../../../openfort/useOpenfort';
+import { useLogger } from '../../useLogger';
+import { OpenfortHookOptions, OpenfortError, OpenfortErrorCode, OpenfortErrorType } from '../../../types';
+import { onError, onSuccess } from '../hookConsistency';
+import { BaseFlowState, mapStatus } from './status';
+
+export type LinkedAccount = OpenfortUser['linkedAccounts'][number];
+
+export type UnlinkResult = {
+  user?: OpenfortUser;
+  error?: OpenfortError;
+};
+
+export type UnlinkOAuthOptions = {
+  provider: OAuthProvider;
+} & OpenfortHookOptions<UnlinkResult>;
+
+export type UnlinkEmailOptions = {
+  email: string;
+} & OpenfortHookOptions<UnlinkResult>;
+
+export type UnlinkWalletOptions = {
+  address: string;
+} & OpenfortHookOptions<UnlinkResult>;
+
+export type UseLinkedAccountsOptions = OpenfortHookOptions<UnlinkResult>;
+
+/**
+ * Hook for listing and unlinking the sign-in methods of the current user
+ *
+ * The last linked account cannot be unlinked, since the user would not be able to sign in again. Unlinking it
+ * fails with the `LAST_SIGN_IN_METHOD` error code, check `canUnlink` to hide the action instead.
+ *
+ * @param hookOptions - Optional callback functions shared by every unlink action
+ * @returns The linked accounts, unlink actions and the state of the last action
+ *
+ * @example
+ * ```tsx
+ * const { linkedAccounts, canUnlink, unlinkOAuth, unlinkEmail, unlinkWallet } = useLinkedAccounts({
+ *   onError: (error) => console.error('Unlink failed:', error.code),
+ * });
+ *
+ * // Unlink a social provider
+ * await unlinkOAuth({ provider: OAuthProvider.GOOGLE });
+ *
+ * // Unlink the email and password
+ * await unlinkEmail({ email: 'user@example.com' });
+ *
+ * // Unlink a wallet used to sign in with Ethereum
+ * await unlinkWallet({ address: '0x...' });
+ *
+ * if (!canUnlink) {
+ *   console.log('Link another sign-in method before removing this one');
+ * }
+ * ```
+ */
+export const useLinkedAccounts = (hookOptions: UseLinkedAccountsOptions = {}) => {
+  const { debug: log } = useLogger('auth');
+  const { client, user, updateUser } = useOpenfortCore();
+  const [status, setStatus] = useState<BaseFlowState>({
+    status: "idle",
+  });
+
+  const linkedAccounts = useMemo(() => user?.linkedAccounts ?? [], [user]);
+  const canUnlink = linkedAccounts.length > 1;
+
+  const reset = useCallback(() => {
+    setStatus({
+      status: "idle",
+    });
+  }, []);
+
+  const unlink = useCallback(async (
+    options: OpenfortHookOptions<UnlinkResult>,
+    errorMessage: string,
+    matches: (account: LinkedAccount) => boolean,
+    request: (authToken: string) => Promise<OpenfortUser>,
+  ): Promise<UnlinkResult> => {
+    try {
+      setStatus({
+        status: 'loading',
+      });
+
+      if (!linkedAccounts.some(matches)) {
+        throw new OpenfortError("Account is not linked to the user", OpenfortErrorType.VALIDATION_ERROR);
+      }
+      if (!canUnlink) {
+        throw new OpenfortError("Cannot unlink the last sign-in method",
+          OpenfortErrorType.VALIDATION_ERROR, undefined, { code: OpenfortErrorCode.LAST_SIGN_IN_METHOD });
+      }
+
+      await client.validateAndRefreshToken();
+      const authToken = await client.getAccessToken();
+      if (!authToken) {
+        throw new OpenfortError("No auth token found",
+          OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.NOT_AUTHENTICATED });
+      }
+
+      const result = await request(authToken);
+      log("Account unlinked successfully");
+      const updatedUser = await updateUser(result);
+
+      setStatus({
+        status: 'success',
+      });
+
+      return onSuccess<UnlinkResult>({
+        data: { user: updatedUser ?? result },
+        hookOptions,
+        options,
+      });
+    } catch (e) {
+      const error = new OpenfortError(errorMessage, OpenfortErrorType.AUTHENTICATION_ERROR, { error: e });
+
+      setStatus({
+        status: 'error',
+        error,
+      });
+
+      return onError({
+        hookOptions,
+        options,
+        error,
+      });
+    }
+  }, [client, linkedAccounts, canUnlink, updateUser, log, hookOptions]);
+
+  const unlinkOAuth = useCallback((options: UnlinkOAuthOptions) => unlink(
+    options,
+    "Failed to unlink OAuth",
+    (account) => account.provider === options.provider,
+    (authToken) => client.auth.unlinkOAuth({ provider: options.provider, authToken }),
+  ), [client, unlink]);
+
+  const unlinkEmail = useCallback((options: UnlinkEmailOptions) => unlink(
+    options,
+    "Failed to unlink email",
+    (account) => account.provider === 'email' && account.email?.toLowerCase() === options.email.toLowerCase(),
+    (authToken) => client.auth.unlinkEmailPassword({ email: options.email, authToken }),
+  ), [client, unlink]);
+
+  const unlinkWallet = useCallback((options: UnlinkWalletOptions) => unlink(
+    options,
+    "Failed to unlink wallet",
+    (account) => account.provider === 'wallet' && account.address?.toLowerCase() === options.address.toLowerCase(),
+    (authToken) => client.auth.unlinkWallet({ address: options.address, authToken }),
+  ), [client, unlink]);
+
+  return {
+    linkedAccounts,
+    canUnlink,
+    unlinkOAuth,
+    unlinkEmail,
+    unlinkWallet,
+    reset,
+    ...mapStatus(status),
+  };
+}
@@ -1,8 +1,10 @@
 import { OAuthProvider } from '@openfort/openfort-js';
 import { useCallback, useState } from "react";
+import { OAuthPopupClosedError, openOAuthPopup, waitForOAuthPopup } from '../../../openfort/core';
 import { useOpenfortCore } from '../../../openfort/useOpenfort';
+import { useLogger } from '../../useLogger';
 import { BaseFlowState, mapStatus } from './status';
-import { OpenfortHookOptions, OpenfortError, OpenfortErrorType } from '../../../types';
+import { OpenfortHookOptions, OpenfortError, OpenfortErrorCode, OpenfortErrorType } from '../../../types';
 import { buildCallbackUrl } from './requestEmailVerification';
 import { onError, onSuccess } from '../hookConsistency';
 import { CreateWalletPostAuthOptions, useConnectToWalletPostAuth } from './useConnectToWalletPostAuth';
@@ -10,13 +12,24 @@ import { CreateWalletPostAuthOptions, useConnectToWalletPostAuth } from './useCo
 import { UserWallet } from "../useWallets";
 import { type AuthPlayerResponse as OpenfortUser } from '@openfort/openfort-js';
 
-// TODO: Open auth in a new tab and use polling to check for completion
+export type OAuthMode = 'redirect' | 'popup';
+
 export type InitializeOAuthOptions = {
   provider: OAuthProvider,
   redirectTo?: string;
-} & OpenfortHookOptions<InitOAuthReturnType>;
+  /**
+   * `popup` signs in within a popup and keeps the state of the page, `redirect` navigates to the provider.
+   * Falls back to `redirect` when the browser blocks the popup.
+   *
+   * @defaultValue 'redirect'
+   */
+  mode?: OAuthMode;
+} & OpenfortHookOptions<InitOAuthReturnType> & CreateWalletPostAuthOptions;
 
 export type InitOAuthReturnType = {
+  /** Signed in user, only set in `popup` mode since `redirect` leaves the page. */
+  user?: OpenfortUser;
+  wallet?: UserWallet;
   error?: OpenfortError;
 }
 
@@ -34,6 +47,8 @@ export type StoreCredentialsOptions = {
 
 export type AuthHookOptions = {
   redirectTo?: string;
+  /** Default mode of `initOAuth` and `linkOauth`. */
+  mode?: OAuthMode;
 } & OpenfortHookOptions<StoreCredentialsResult | InitOAuthReturnType> & CreateWalletPostAuthOptions;
 
 /**
@@ -65,6 +80,14 @@ export type AuthHookOptions = {
  *   });
  * };
  *
+ * // Sign in within a popup, the page keeps its state
+ * const handleTwitterAuth = async () => {
+ *   const { user, wallet } = await oauth.initOAuth({
+ *     provider: OAuthProvider.TWITTER,
+ *     mode: 'popup',
+ *   });
+ * };
+ *
  * const handleDiscordAuth = async () => {
  *   await oauth.initOAuth({
  *     provider: OAuthProvider.DISCORD,
@@ -113,12 +136,54 @@ export type AuthHookOptions = {
 export const useOAuth = (hookOptions: AuthHookOptions = {}) => {
 
   const { client, updateUser } = useOpenfortCore();
+  const logger = useLogger('auth');
   const [status, setStatus] = useState<BaseFlowState>({
     status: "idle",
   });
 
   const { tryUseWallet } = useConnectToWalletPostAuth();
 
+  const signInWithCredentials = useCallback(async ({
+    player,
+    accessToken,
+    refreshToken,
+    ...options
+  }: Omit<StoreCredentialsOptions, keyof OpenfortHookOptions<StoreCredentialsResult>>) => {
+    await client.auth.storeCredentials({
+      player,
+      accessToken,
+      refreshToken,
+    });
+
+    const user = await updateUser() || undefined;
+
+    const { wallet } = await tryUseWallet({
+      logoutOnError: options.logoutOnError ?? hookOptions.logoutOnError,
+      recoverWalletAutomatically: options.recoverWalletAutomatically ?? hookOptions.recoverWalletAutomatically,
+    });
+
+    return { user, wallet };
+  }, [client, updateUser, tryUseWallet, hookOptions]);
+
+  // Opens the popup before any await, browsers only allow popups in response to a click
+  const openPopup = useCallback((mode?: OAuthMode) => {
+    if ((mode ?? hookOptions.mode) !== 'popup') return null;
+
+    const popup = openOAuthPopup();
+    if (!popup) logger.warn('The OAuth popup was blocked, falling back to a redirect');
+    return popup;
+  }, [hookOptions, logger]);
+
+  const completePopup = useCallback(async (
+    popup: Window,
+    url: string,
+    options: CreateWalletPostAuthOptions,
+  ) => {
+    popup.location.href = url;
+    const credentials = await waitForOAuthPopup(popup);
+    return signInWithCredentials({ ...credentials, ...options });
+  }, [signInWithCredentials]);
+
   const storeCredentials = useCallback(async ({
     player,
     accessToken,
@@ -130,22 +195,17 @@ export const useOAuth = (hookOptions: AuthHookOptions = {}) => {
     });
 
     try {
-      await client.auth.storeCredentials({
+      const { user, wallet } = await signInWithCredentials({
         player,
         accessToken,
         refreshToken,
+        logoutOnError: options.logoutOnError,
+        recoverWalletAutomatically: options.recoverWalletAutomatically,
       });
       setStatus({
         status: 'success',
       });
 
-      const user = await updateUser() || undefined;
-
-      const { wallet } = await tryUseWallet({
-        logoutOnError: options.logoutOnError ?? hookOptions.logoutOnError,
-        recoverWalletAutomatically: options.recoverWalletAutomatically ?? hookOptions.recoverWalletAutomatically,
-      });
-
       return onSuccess({
         data: { user, wallet, type: "storeCredentials" },
         hookOptions,
@@ -165,34 +225,41 @@ export const useOAuth = (hookOptions: AuthHookOptions = {}) => {
         error,
       });
     }
-  }, [client, hookOptions]);
+  }, [signInWithCredentials, hookOptions]);
 
   const initOAuth = useCallback(async (options: InitializeOAuthOptions): Promise<InitOAuthReturnType> => {
     const authProvider = options.provider;
+    const popup = openPopup(options.mode);
 
     try {
       setStatus({
         status: 'loading',
       });
 
-      await client.auth.initOAuth({
+      const { url } = await client.auth.initOAuth({
         provider: authProvider,
         options: {
           redirectTo: buildCallbackUrl({
             provider: authProvider,
             callbackUrl: hookOptions?.redirectTo ?? options?.redirectTo,
-          })
+            popup: !!popup,
+          }),
+          skipBrowserRedirect: !!popup,
         },
       });
 
+      const data = popup ? await completePopup(popup, url, options) : {};
+      if (popup) setStatus({ status: 'success' });
+
       return onSuccess<InitOAuthReturnType>({
-        data: {},
+        data,
         hookOptions,
         options,
       });
     } catch (e) {
+      popup?.close();
       const error = new OpenfortError("Failed to login with OAuth",
-        OpenfortErrorType.AUTHENTICATION_ERROR, { error: e });
+        OpenfortErrorType.AUTHENTICATION_ERROR, { error: e }, e instanceof OAuthPopupClosedError ? { code: OpenfortErrorCode.USER_REJECTED } : undefined);
 
       setStatus({
         status: 'error',
@@ -205,11 +272,12 @@ export const useOAuth = (hookOptions: AuthHookOptions = {}) => {
         error,
       });
     }
-  }, [client, setStatus, updateUser, hookOptions]);
+  }, [client, setStatus, openPopup, completePopup, hookOptions]);
 
   const linkOauth = useCallback(async (options: InitializeOAuthOptions): Promise<InitOAuthReturnType> => {
 
     const authProvider = options.provider;
+    const popup = openPopup(options.mode);
 
     try {
       setStatus({
@@ -220,28 +288,34 @@ export const useOAuth = (hookOptions: AuthHookOptions = {}) => {
 
       if (!authToken) {
         throw new OpenfortError("No auth token found",
-          OpenfortErrorType.AUTHENTICATION_ERROR);
+          OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.NOT_AUTHENTICATED });
       }
 
-      await client.auth.initLinkOAuth({
+      const { url } = await client.auth.initLinkOAuth({
         authToken,
         provider: authProvider,
         options: {
           redirectTo: buildCallbackUrl({
             provider: authProvider,
             callbackUrl: options?.redirectTo ?? hookOptions?.redirectTo,
-          })
+            popup: !!popup,
+          }),
+          skipBrowserRedirect: !!popup,
         },
       });
 
+      const data = popup ? await completePopup(popup, url, options) : {};
+      if (popup) setStatus({ status: 'success' });
+
       return onSuccess<InitOAuthReturnType>({
-        data: {},
+        data,
         hookOptions,
         options,
       });
     } catch (e) {
+      popup?.close();
       const error = new OpenfortError("Failed to link OAuth",
-        OpenfortErrorType.AUTHENTICATION_ERROR, { error: e });
+        OpenfortErrorType.AUTHENTICATION_ERROR, { error: e }, e instanceof OAuthPopupClosedError ? { code: OpenfortErrorCode.USER_REJECTED } : undefined);
 
       setStatus({
         status: 'error',
@@ -254,7 +328,7 @@ export const useOAuth = (hookOptions: AuthHookOptions = {}) => {
         error,
       });
     }
-  }, [client, setStatus, updateUser, hookOptions]);
+  }, [client, setStatus, openPopup, completePopup, hookOptions]);
 
   return {
     initOAuth,
@@ -1,3 +1,169 @@
-export const useThirdPartyAuth = () => {
+import { type AuthPlayerResponse as OpenfortUser } from '@openfort/openfort-js';
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useOpenfort } from '../../../components/Openfort/useOpenfort';
+import { isThirdPartyAuthAdapter, ThirdPartyAuthAdapter } from '../../../openfort/core';
+import { useOpenfortCore } from '../../../openfort/useOpenfort';
+import { OpenfortHookOptions, OpenfortError, OpenfortErrorCode, OpenfortErrorType } from '../../../types';
+import { useLogger } from '../../useLogger';
+import { onError, onSuccess } from '../hookConsistency';
+import { UserWallet } from '../useWallets';
+import { BaseFlowState, mapStatus } from './status';
+import { CreateWalletPostAuthOptions, useConnectToWalletPostAuth } from './useConnectToWalletPostAuth';
 
-}
\ No newline at end of file
+export type ThirdPartyAuthResult = {
+  user?: OpenfortUser;
+  wallet?: UserWallet;
+  error?: OpenfortError;
+};
+
+export type UseThirdPartyAuthOptions = {
+  /**
+   * Adapter of the identity provider, defaults to the `thirdPartyAuth` of `OpenfortProvider`.
+   * Pass the same adapter to both, `OpenfortProvider` authenticates the requests with its `getAccessToken`.
+   */
+  adapter?: ThirdPartyAuthAdapter;
+} & OpenfortHookOptions<ThirdPartyAuthResult> & CreateWalletPostAuthOptions;
+
+/**
+ * Hook for signing in with an external identity provider such as Firebase, Supabase or Auth0
+ *
+ * This hook keeps the Openfort session in sync with the identity provider: once a user signs in to the provider,
+ * the Openfort user is loaded and the embedded wallet is recovered or created, and signing out of the provider
+ * signs out of Openfort. Render it once, close to `OpenfortProvider`. Adapters for common providers are exported
+ * as `firebaseAuthAdapter`, `supabaseAuthAdapter` and `auth0AuthAdapter`.
+ *
+ * @param hookOptions - The adapter, callback functions and wallet options
+ * @returns Current sync state and a method to sync the session manually
+ *
+ * @example
+ * ```tsx
+ * const adapter = firebaseAuthAdapter(getAuth(app));
+ *
+ * <OpenfortProvider publishableKey="pk_..." thirdPartyAuth={adapter}>
+ *   <App />
+ * </OpenfortProvider>
+ *
+ * // In App
+ * const { isSignedIn, isLoading, syncSession } = useThirdPartyAuth({
+ *   onSuccess: ({ user }) => console.log('Signed in to Openfort:', user?.id),
+ *   onError: (error) => console.error('Third party sign in failed:', error.code),
+ *   recoverWalletAutomatically: true,
+ * });
+ *
+ * // Sync again after the identity provider changed the claims of the user
+ * await syncSession();
+ * ```
+ */
+export const useThirdPartyAuth = (hookOptions: UseThirdPartyAuthOptions = {}) => {
+  const logger = useLogger('auth');
+  const log = logger.debug;
+  const { user, updateUser, logout } = useOpenfortCore();
+  const { thirdPartyAuth } = useOpenfort();
+  const [status, setStatus] = useState<BaseFlowState>({
+    status: "idle",
+  });
+  const [isSignedIn, setIsSignedIn] = useState<boolean | null>(null);
+
+  const adapter = hookOptions.adapter ?? (thirdPartyAuth && isThirdPartyAuthAdapter(thirdPartyAuth) ? thirdPartyAuth : undefined);
+
+  const reset = useCallback(() => {
+    setStatus({
+      status: "idle",
+    });
+  }, []);
+
+  const { tryUseWallet } = useConnectToWalletPostAuth();
+
+  const syncSession = useCallback(async (options: OpenfortHookOptions<ThirdPartyAuthResult> = {}): Promise<ThirdPartyAuthResult> => {
+    try {
+      setStatus({
+        status: 'loading',
+      });
+
+      if (!adapter) {
+        throw new OpenfortError("useThirdPartyAuth requires an adapter with `onAuthStateChanged`",
+          OpenfortErrorType.CONFIGURATION_ERROR);
+      }
+
+      const token = await adapter.getAccessToken();
+      if (!token) {
+        throw new OpenfortError("No user is signed in to the identity provider",
+          OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.NOT_AUTHENTICATED });
+      }
+
+      // Requests are authenticated with the token of the identity provider, see `thirdPartyAuth`
+      const user = await updateUser();
+      if (!user) {
+        throw new OpenfortError("Failed to load the Openfort user", OpenfortErrorType.AUTHENTICATION_ERROR);
+      }
+      log("Third party session synced", user.id);
+
+      const { wallet } = await tryUseWallet({
+        logoutOnError: hookOptions.logoutOnError,
+        recoverWalletAutomatically: hookOptions.recoverWalletAutomatically,
+      });
+
+      setStatus({
+        status: 'success',
+      });
+
+      return onSuccess<ThirdPartyAuthResult>({
+        data: { user, wallet },
+        hookOptions,
+        options,
+      });
+    } catch (e) {
+      const error = new OpenfortError("Failed to sign in with the identity provider", OpenfortErrorType.AUTHENTICATION_ERROR, { error: e });
+      setStatus({
+        status: 'error',
+        error
+      });
+
+      return onError({
+        hookOptions,
+        options,
+        error,
+      });
+    }
+  }, [adapter, updateUser, tryUseWallet, log, hookOptions]);
+
+  // Latest values for the subscription, which is only renewed when the adapter changes
+  const latest = useRef({ user, syncSession, logout });
+  latest.current = { user, syncSession, logout };
+
+  useEffect(() => {
+    if (!adapter || thirdPartyAuth) return;
+    logger.error('Set `thirdPartyAuth` of OpenfortProvider to the adapter of useThirdPartyAuth, the requests to Openfort are authenticated with it.',
+      new OpenfortError('Missing `thirdPartyAuth` configuration', OpenfortErrorType.CONFIGURATION_ERROR));
+  }, [adapter, thirdPartyAuth, logger]);
+
+  useEffect(() => {
+    if (!adapter) {
+      log("useThirdPartyAuth has no adapter, pass one or set `thirdPartyAuth` of OpenfortProvider to an adapter");
+      return;
+    }
+
+    let previous: boolean | null = null;
+    return adapter.onAuthStateChanged((signedIn) => {
+      // Some providers report every token refresh, only sign ins and sign outs change the session
+      if (signedIn === previous) return;
+      previous = signedIn;
+      setIsSignedIn(signedIn);
+
+      if (signedIn) {
+        latest.current.syncSession();
+      } else if (latest.current.user) {
+        log("Signed out of the identity provider, signing out of Openfort");
+        latest.current.logout();
+      }
+    });
+  }, [adapter, log]);
+
+  return {
+    /** Whether a user is signed in to the identity provider, `null` until the adapter reports it. */
+    isSignedIn,
+    syncSession,
+    reset,
+    ...mapStatus(status),
+  };
+}
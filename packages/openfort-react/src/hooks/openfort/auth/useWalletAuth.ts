@@ -2,11 +2,11 @@ import { useCallback, useEffect, useState } from "react";
 import { Connector, useAccount, useDisconnect } from "wagmi";
 import { BaseFlowState, mapStatus } from "./status";
 import { useConnect } from "../../useConnect";
-import { useOpenfort } from "../../../components/Openfort/useOpenfort";
+import { useLogger } from "../../useLogger";
 import { useOpenfortCore } from "../../../openfort/useOpenfort";
 import { useConnectWithSiwe } from "../useConnectWithSiwe";
 import { useWallets } from "../../../wallets/useWallets";
-import { OpenfortHookOptions, OpenfortError, OpenfortErrorType } from "../../../types";
+import { OpenfortHookOptions, OpenfortError, OpenfortErrorCode, OpenfortErrorType } from "../../../types";
 import { onError, onSuccess } from "../hookConsistency";
 
 
@@ -16,7 +16,8 @@ type ConnectWalletOptions = {
 
 export const useWalletAuth = (hookOptions: OpenfortHookOptions = {}) => {
   const { updateUser } = useOpenfortCore();
-  const { log } = useOpenfort();
+  const logger = useLogger('auth');
+  const log = logger.debug;
   const siwe = useConnectWithSiwe()
   const availableWallets = useWallets(); // TODO: Use this to get the wallet client type
   const { disconnect } = useDisconnect();
@@ -58,10 +59,10 @@ export const useWalletAuth = (hookOptions: OpenfortHookOptions = {}) => {
     setShouldConnectWithSiwe(false);
 
     siwe({
-      onError: (e) => {
+      onError: (e, _status, openfortError) => {
         log("Error connecting with SIWE", e);
         disconnect();
-        const error = new OpenfortError("Failed to connect with siwe", OpenfortErrorType.AUTHENTICATION_ERROR, { error: e });
+        const error = new OpenfortError("Failed to connect with siwe", OpenfortErrorType.AUTHENTICATION_ERROR, { error: openfortError ?? e });
         handleError(error);
       },
       onConnect: () => {
@@ -181,7 +182,7 @@ export const useWalletAuth = (hookOptions: OpenfortHookOptions = {}) => {
 
     if (!connector) {
       log("Connector not found", connector);
-      return handleError(new OpenfortError("Connector not found", OpenfortErrorType.AUTHENTICATION_ERROR));
+      return handleError(new OpenfortError("Connector not found", OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.WALLET_NOT_FOUND }));
     }
 
     setWalletConnectingTo(connector.id);
@@ -192,7 +193,7 @@ export const useWalletAuth = (hookOptions: OpenfortHookOptions = {}) => {
           resolve();
         },
         onError: (e) => {
-          console.error("Error disconnecting", e);
+          logger.error("Error disconnecting", e);
 
           const error = new OpenfortError("Failed to disconnect", OpenfortErrorType.AUTHENTICATION_ERROR, { error: e });
           handleError(error);
@@ -209,7 +210,7 @@ export const useWalletAuth = (hookOptions: OpenfortHookOptions = {}) => {
       });
       log("Connected to wallet!!!", connector.id);
     } catch (error) {
-      console.error("Error connecting", error);
+      logger.error("Error connecting", error);
       handleError(new OpenfortError("Failed to connect", OpenfortErrorType.AUTHENTICATION_ERROR, { error }));
     }
   }, [siwe, disconnect, updateUser, availableWallets, log, setStatus, hookOptions]);
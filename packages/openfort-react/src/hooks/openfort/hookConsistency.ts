@@ -18,6 +18,22 @@ export const onSuccess = <T>({
   return data;
 }
 
+type HookErrorListener = (error: OpenfortError) => void;
+
+const hookErrorListeners = new Set<HookErrorListener>();
+
+/**
+ * Registers a listener for every error reported by the Openfort hooks, used by the devtools.
+ *
+ * @returns A function that removes the listener.
+ */
+export const subscribeToHookErrors = (listener: HookErrorListener) => {
+  hookErrorListeners.add(listener);
+  return () => {
+    hookErrorListeners.delete(listener);
+  };
+}
+
 export const onError = <T,>({
   hookOptions,
   options,
@@ -27,6 +43,8 @@ export const onError = <T,>({
   options?: OpenfortHookOptions<T>;
   error: OpenfortError;
 }) => {
+  hookErrorListeners.forEach((listener) => listener(error));
+
   hookOptions?.onError?.(error);
   hookOptions?.onSettled?.(null, error);
   options?.onError?.(error);
@@ -1,39 +1,72 @@
-import { AxiosError } from "axios";
 import { useAccount, useChainId, useConfig } from "wagmi";
 import { useOpenfort } from '../../components/Openfort/useOpenfort';
+import { useLogger } from '../useLogger';
 import { useOpenfortCore } from '../../openfort/useOpenfort';
 import { createSIWEMessage } from "../../siwe/create-siwe-message";
+import { getErrorStatus } from "../../openfort/core";
+import { OpenfortError, OpenfortErrorCode, OpenfortErrorType } from "../../types";
 
-import { signMessage } from '@wagmi/core';
-import { useCallback } from "react";
+import { getPublicClient, signMessage } from '@wagmi/core';
+import { prepareSiweSignature } from "../../siwe/verify-siwe-signature";
+import { isSafeConnector } from "../../utils";
+import { useCallback, useEffect, useRef } from "react";
 
 export function useConnectWithSiwe() {
   const { client, user, updateUser } = useOpenfortCore();
-  const { log } = useOpenfort();
-  const { address, connector } = useAccount();
-  const chainId = useChainId();
+  const { debug: log } = useLogger('auth');
+  const { siwe, open } = useOpenfort();
+  const { address, connector, chainId: walletChainId } = useAccount();
+  const configChainId = useChainId();
+  // The message is signed on the chain of the connected wallet
+  const chainId = walletChainId ?? configChainId;
   const config = useConfig();
 
+  // Waiting for the other owners of a Safe stops once the modal is closed or the page unmounted
+  const abortController = useRef<AbortController | null>(null);
+  useEffect(() => {
+    if (!open) abortController.current?.abort();
+  }, [open]);
+  useEffect(() => () => abortController.current?.abort(), []);
+
   const connectWithSiwe = useCallback(async ({
     onError,
     onConnect,
+    onWaitingForOwners,
   }: {
-    onError?: (error: string, status?: number) => void,
+    onError?: (error: string, status?: number, openfortError?: OpenfortError) => void,
     onConnect?: () => void,
+    /** Called when a Safe waits for its other owners to sign the message. */
+    onWaitingForOwners?: () => void,
   }) => {
     const connectorType = connector?.type;
     const walletClientType = connector?.id;
 
     if (!address || !connectorType || !walletClientType) {
       log("No address found", { address, connectorType, walletClientType });
-      onError && onError("No address found");
+      onError && onError("No address found", undefined, new OpenfortError("No address found", OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.WALLET_NOT_FOUND }));
       return;
     }
 
+    abortController.current?.abort();
+    const controller = new AbortController();
+    abortController.current = controller;
+
     try {
       const { nonce } = await client.auth.initSIWE({ address });
-      const SIWEMessage = createSIWEMessage(address, nonce, chainId);
-      const signature = await signMessage(config, { message: SIWEMessage });
+      const SIWEMessage = await createSIWEMessage({ address, nonce, chainId }, siwe);
+      const rawSignature = await signMessage(config, { message: SIWEMessage });
+
+      // Smart-contract wallets are checked on chain first, Openfort cannot tell why their signature is invalid
+      const publicClient = getPublicClient(config, { chainId });
+      const signature = publicClient
+        ? await prepareSiweSignature(publicClient, { address, message: SIWEMessage, signature: rawSignature }, {
+          isSafe: isSafeConnector(walletClientType),
+          // Browser extensions only hold private keys
+          canBeContract: connectorType !== 'injected',
+          onWaitingForOwners,
+          signal: controller.signal,
+        })
+        : rawSignature;
 
       // if has user, we link the wallet
       if (user) {
@@ -63,13 +96,13 @@ export function useConnectWithSiwe() {
     }
     catch (err) {
       log("Failed to connect with SIWE", err);
-      if (err instanceof AxiosError) {
-        onError && onError("Failed to connect with SIWE", err.request.status);
-      } else {
-        onError && onError("Failed to connect with SIWE");
-      }
+      // A conflict while linking means that the wallet belongs to another user
+      const code = user && getErrorStatus(err) === 409 ? OpenfortErrorCode.WALLET_ALREADY_LINKED : undefined;
+      // Otherwise the code of the error is kept, e.g. INVALID_SIGNATURE for an unverifiable signature
+      const error = new OpenfortError("Failed to connect with SIWE", OpenfortErrorType.AUTHENTICATION_ERROR, { error: err }, { code });
+      onError && onError("Failed to connect with SIWE", error.httpStatus, error);
     }
-  }, [client, user, updateUser, log, address, chainId, config, connector]);
+  }, [client, user, updateUser, log, address, chainId, config, connector, siwe]);
 
   return connectWithSiwe;
 }
\ No newline at end of file
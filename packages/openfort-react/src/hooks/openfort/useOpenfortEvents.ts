@@ -0,0 +1,60 @@
+import { useEffect, useRef } from 'react';
+import { useOpenfort } from '../../components/Openfort/useOpenfort';
+import { OpenfortEventListener, OpenfortEventName } from '../../openfort/core';
+
+export type OpenfortEventHandlers = {
+  [E in OpenfortEventName]?: OpenfortEventListener<E>;
+};
+
+/**
+ * Hook for subscribing to the Openfort lifecycle events
+ *
+ * This hook subscribes the given handlers to the typed event stream of the {@link OpenfortProvider},
+ * so analytics, toasts or backend synchronisation can react to authentication, wallet, modal and chain
+ * changes from anywhere in the tree without wrapping every hook call. Handlers can change between
+ * renders without resubscribing, and are removed when the component unmounts.
+ *
+ * @param handlers - Listeners keyed by event name, see {@link OpenfortEventMap} for the payloads.
+ * @returns The `on` function of the event bus, for subscriptions managed outside of React.
+ *
+ * @example
+ * ```tsx
+ * useOpenfortEvents({
+ *   'auth:login': ({ user }) => analytics.identify(user.id),
+ *   'auth:logout': () => analytics.reset(),
+ *   'wallet:created': ({ account }) => toast(`Wallet ${account.address} created`),
+ *   'modal:routeChanged': ({ route, previousRoute }) => console.log(previousRoute, '->', route),
+ *   'chain:switched': ({ chainId }) => syncChainWithBackend(chainId),
+ * });
+ *
+ * // Or subscribe manually
+ * const { on } = useOpenfortEvents();
+ * useEffect(() => on('user:updated', ({ user }) => console.log('User updated', user)), [on]);
+ * ```
+ */
+export function useOpenfortEvents(handlers: OpenfortEventHandlers = {}) {
+  const { events } = useOpenfort();
+
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  // Only the set of subscribed events triggers a resubscription, not the handlers themselves
+  const subscribedEvents = (Object.keys(handlers) as OpenfortEventName[]).sort().join(',');
+
+  useEffect(() => {
+    if (!subscribedEvents) return;
+
+    const unsubscribers = (subscribedEvents.split(',') as OpenfortEventName[]).map((event) =>
+      events.on(event, (payload) => {
+        const handler = handlersRef.current[event] as OpenfortEventListener<typeof event> | undefined;
+        handler?.(payload);
+      })
+    );
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [events, subscribedEvents]);
+
+  return {
+    on: events.on,
+  };
+}
@@ -9,6 +9,22 @@ export enum OpenfortStatus {
   CONNECTED,
 }
 
+/**
+ * Computes the {@link OpenfortStatus} from the embedded state and whether wagmi has a connected wallet.
+ */
+export const getOpenfortStatus = (embeddedState: EmbeddedState, isConnected: boolean) => {
+  if (embeddedState === EmbeddedState.READY) return OpenfortStatus.CONNECTED;
+  if (embeddedState === EmbeddedState.NONE) return OpenfortStatus.LOADING;
+
+  // if (needsRecovery) return OpenfortStatus.NEEDS_RECOVERY;
+  if (embeddedState === EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED) {
+    if (isConnected) return OpenfortStatus.CONNECTED;
+    else return OpenfortStatus.NEEDS_RECOVERY;
+  }
+
+  return OpenfortStatus.DISCONNECTED;
+}
+
 /**
  * Hook for monitoring Openfort connection and authentication status
  *
@@ -33,6 +49,11 @@ export enum OpenfortStatus {
  *   console.log('Not connected to Openfort');
  * }
  *
+ * // Openfort could not be reached, the session is kept while retrying
+ * if (status.isReconnecting) {
+ *   console.log('Reconnecting...');
+ * }
+ *
  * // Check authentication state
  * if (status.isAuthenticated) {
  *   console.log('User is authenticated');
@@ -52,28 +73,17 @@ export enum OpenfortStatus {
  * ```
  */
 export function useStatus() {
-  const { embeddedState } = useOpenfortCore();
+  const { embeddedState, isReconnecting } = useOpenfortCore();
   const { isConnected, isConnecting } = useAccount();
 
-  const getStatus = () => {
-    if (embeddedState === EmbeddedState.READY) return OpenfortStatus.CONNECTED;
-    if (embeddedState === EmbeddedState.NONE) return OpenfortStatus.LOADING;
-
-    // if (needsRecovery) return OpenfortStatus.NEEDS_RECOVERY;
-    if (embeddedState === EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED) {
-      if (isConnected) return OpenfortStatus.CONNECTED;
-      else return OpenfortStatus.NEEDS_RECOVERY;
-    }
-
-    return OpenfortStatus.DISCONNECTED;
-  }
-  const status = getStatus();
+  const status = getOpenfortStatus(embeddedState, isConnected);
 
   return {
     isLoading: status === OpenfortStatus.LOADING,
     isConnected: status === OpenfortStatus.CONNECTED,
     isDisconnected: status === OpenfortStatus.DISCONNECTED,
     isConnecting: isConnecting || embeddedState === EmbeddedState.CREATING_ACCOUNT,
+    isReconnecting,
     isAuthenticated: embeddedState !== EmbeddedState.NONE && embeddedState !== EmbeddedState.UNAUTHENTICATED,
   }
 }
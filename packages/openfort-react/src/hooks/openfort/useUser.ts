@@ -1,14 +1,23 @@
 import { useCallback, useEffect, useState } from "react";
+import { OpenfortEventListener } from "../../openfort/core";
 import { useOpenfortCore } from '../../openfort/useOpenfort';
+import { useOpenfortEvents } from "./useOpenfortEvents";
 import { useStatus } from "./useStatus";
 
+type UseUserOptions = {
+  /** Called every time the access token is refreshed, e.g. to keep a backend session cookie in sync. */
+  onTokenRefreshed?: OpenfortEventListener<'auth:tokenRefreshed'>;
+};
+
 /**
  * Hook for accessing current user information and authentication state
  *
  * This hook provides access to the current authenticated user's information and
  * authentication status. It also offers methods to manage access tokens and validate
  * user sessions. The hook automatically updates when authentication state changes.
+ * The access token is refreshed by the provider shortly before `accessTokenExpiresAt`.
  *
+ * @param options - Optional callback invoked when the access token is refreshed
  * @returns Current user state and authentication utilities
  *
  * @example
@@ -35,6 +44,12 @@ import { useStatus } from "./useStatus";
  *   }
  * };
  *
+ * // Keep a backend session in sync with the access token
+ * const { accessTokenExpiresAt } = useUser({
+ *   onTokenRefreshed: ({ accessToken }) => fetch('/api/session', { method: 'POST', body: accessToken }),
+ * });
+ * console.log('Token expires at', new Date(accessTokenExpiresAt ?? 0));
+ *
  * // Validate and refresh token if needed
  * const refreshToken = async () => {
  *   try {
@@ -46,10 +61,12 @@ import { useStatus } from "./useStatus";
  * };
  * ```
  */
-export function useUser() {
-  const { user, client } = useOpenfortCore();
+export function useUser({ onTokenRefreshed }: UseUserOptions = {}) {
+  const { user, client, accessTokenExpiresAt } = useOpenfortCore();
   const { isAuthenticated } = useStatus();
 
+  useOpenfortEvents(onTokenRefreshed ? { 'auth:tokenRefreshed': onTokenRefreshed } : {});
+
   const getAccessTokenAndUpdate = useCallback(async () => {
     await client.validateAndRefreshToken();
     const token = await client.getAccessToken();
@@ -59,6 +76,7 @@ export function useUser() {
   return {
     user,
     isAuthenticated,
+    accessTokenExpiresAt,
     getAccessToken: getAccessTokenAndUpdate,
     validateAndRefreshToken: async () => await client.validateAndRefreshToken(),
   };
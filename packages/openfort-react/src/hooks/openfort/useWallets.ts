@@ -5,9 +5,11 @@ import { Hex } from "viem";
 import { Connector, useAccount, useChainId, useConnect, useDisconnect } from "wagmi";
 import { UIAuthProvider, routes } from "../../components/Openfort/types";
 import { useOpenfort } from '../../components/Openfort/useOpenfort';
+import { useLogger } from '../useLogger';
 import { embeddedWalletId } from "../../constants/openfort";
+import { withRetry } from '../../openfort/core';
 import { useOpenfortCore } from '../../openfort/useOpenfort';
-import { OpenfortError, OpenfortErrorType, OpenfortHookOptions } from "../../types";
+import { OpenfortError, OpenfortErrorCode, OpenfortErrorType, OpenfortHookOptions } from "../../types";
 import { useWallets as useWagmiWallets } from "../../wallets/useWallets";
 import { BaseFlowState } from "./auth/status";
 import { onError, onSuccess } from "./hookConsistency";
@@ -156,7 +158,9 @@ const mapWalletStatus = (status: WalletFlowStatus) => {
 export function useWallets(hookOptions: WalletOptions = {}) {
   const { client, embeddedAccounts, isLoadingAccounts: isLoadingWallets } = useOpenfortCore();
   const { user } = useUser();
-  const { walletConfig, log, setOpen, setRoute, setConnector, uiConfig } = useOpenfort();
+  const logger = useLogger('wallets');
+  const log = logger.debug;
+  const { walletConfig, setOpen, setRoute, setConnector, uiConfig, events, retryPolicy } = useOpenfort();
   const { connector, isConnected, address } = useAccount();
   const chainId = useChainId();
   const availableWallets = useWagmiWallets(); // TODO: Map wallets object to be the same as wallets
@@ -168,8 +172,8 @@ export function useWallets(hookOptions: WalletOptions = {}) {
   const { connect } = useConnect({
     mutation: {
       onError: (e) => {
-        console.error("Error connecting ---", e);
-        const error = new OpenfortError("Failed to connect with wallet: ", OpenfortErrorType.AUTHENTICATION_ERROR, e)
+        logger.error("Error connecting", e);
+        const error = new OpenfortError("Failed to connect with wallet", OpenfortErrorType.AUTHENTICATION_ERROR, { error: e })
         setStatus({
           status: 'error',
           error,
@@ -212,7 +216,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
     });
 
     if (!resp.ok) {
-      throw new Error("Failed to create encryption session");
+      throw new OpenfortError("Failed to create encryption session", OpenfortErrorType.WALLET_ERROR, { status: resp.status });
     }
 
     const respJSON = await resp.json();
@@ -228,17 +232,19 @@ export function useWallets(hookOptions: WalletOptions = {}) {
       case RecoveryMethod.AUTOMATIC:
         const accessToken = await client.getAccessToken();
         if (!accessToken) {
-          throw new OpenfortError("Openfort access token not found", OpenfortErrorType.AUTHENTICATION_ERROR);
+          throw new OpenfortError("Openfort access token not found", OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.NOT_AUTHENTICATED });
         }
         return {
           recoveryMethod: RecoveryMethod.AUTOMATIC,
-          encryptionSession: walletConfig?.getEncryptionSession ?
-            await walletConfig.getEncryptionSession(accessToken) :
-            await getEncryptionSession()
+          encryptionSession: await withRetry(
+            () => walletConfig?.getEncryptionSession ? walletConfig.getEncryptionSession(accessToken) : getEncryptionSession(),
+            retryPolicy,
+            (error, attempt) => log(`Error getting encryption session, retrying (attempt ${attempt})`, error)
+          ),
         };
       case RecoveryMethod.PASSWORD:
         if (!recovery.password) {
-          throw new OpenfortError("Please enter your password", OpenfortErrorType.VALIDATION_ERROR);
+          throw new OpenfortError("Please enter your password", OpenfortErrorType.VALIDATION_ERROR, undefined, { code: OpenfortErrorCode.MISSING_RECOVERY_PASSWORD });
         }
         return {
           recoveryMethod: RecoveryMethod.PASSWORD,
@@ -276,7 +282,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
       default:
         throw new OpenfortError("Invalid recovery method", OpenfortErrorType.VALIDATION_ERROR);
     }
-  }, [walletConfig, getEncryptionSession]);
+  }, [walletConfig, getEncryptionSession, retryPolicy]);
 
   const rawWallets: UserWallet[] = useMemo(() => {
     const userWallets: UserWallet[] = user ? user.linkedAccounts
@@ -331,7 +337,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
       const wallet = availableWallets.find(c => c.id === optionsObject.walletId);
       if (!wallet) {
         log("Connector not found", connector);
-        return { error: new OpenfortError("Connector not found", OpenfortErrorType.WALLET_ERROR) };
+        return { error: new OpenfortError("Connector not found", OpenfortErrorType.WALLET_ERROR, undefined, { code: OpenfortErrorCode.WALLET_NOT_FOUND }) };
       }
       log("Connecting to", wallet.connector)
       connector = wallet.connector;
@@ -341,7 +347,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
 
     if (!connector) {
       log("Connector not found", availableWallets, optionsObject.walletId);
-      return { error: new OpenfortError("Connector not found", OpenfortErrorType.WALLET_ERROR) };
+      return { error: new OpenfortError("Connector not found", OpenfortErrorType.WALLET_ERROR, undefined, { code: OpenfortErrorCode.WALLET_NOT_FOUND }) };
     }
 
     if (activeWallet?.id === connector.id && address === optionsObject.address) {
@@ -356,7 +362,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
       if (!walletToConnect) {
         log("Wallet not found", connector);
         return onError({
-          error: new OpenfortError("Wallet not found", OpenfortErrorType.AUTHENTICATION_ERROR),
+          error: new OpenfortError("Wallet not found", OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.WALLET_NOT_FOUND }),
           options: optionsObject,
           hookOptions
         });
@@ -394,7 +400,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
 
       if (!walletConfig) {
         return onError({
-          error: new OpenfortError("Embedded signer not enabled", OpenfortErrorType.WALLET_ERROR),
+          error: new OpenfortError("Embedded signer not enabled", OpenfortErrorType.WALLET_ERROR, undefined, { code: OpenfortErrorCode.CONFIGURATION_ERROR }),
           options: optionsObject,
           hookOptions
         });
@@ -416,7 +422,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
           if (!accountToRecover) {
             // TODO: Connect to wallet in the other chain and then switch chain
             return onError({
-              error: new OpenfortError(`Embedded wallet not found for address ${walletAddress} and chainId ${chainId}`, OpenfortErrorType.WALLET_ERROR),
+              error: new OpenfortError(`Embedded wallet not found for address ${walletAddress} and chainId ${chainId}`, OpenfortErrorType.WALLET_ERROR, undefined, { code: OpenfortErrorCode.WALLET_NOT_FOUND }),
               options: optionsObject,
               hookOptions
             });
@@ -425,7 +431,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
           if (optionsObject.recovery?.recoveryMethod && accountToRecover.recoveryMethod && optionsObject.recovery.recoveryMethod !== accountToRecover.recoveryMethod) {
             log("Recovery method does not match", optionsObject.recovery.recoveryMethod, accountToRecover.recoveryMethod);
             return onError({
-              error: new OpenfortError("The recovery phrase you entered is incorrect and does not match the wallet's recovery method", OpenfortErrorType.WALLET_ERROR),
+              error: new OpenfortError("The recovery phrase you entered is incorrect and does not match the wallet's recovery method", OpenfortErrorType.WALLET_ERROR, undefined, { code: OpenfortErrorCode.INVALID_INPUT }),
               options: optionsObject,
               hookOptions
             });
@@ -464,7 +470,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
             // Here it should check if there is a wallet that can recover in another chain and recover it in the current chain (its a different account so its not supported yet)
             // TODO: Connect to wallet in the other chain and then switch chain
             return onError({
-              error: new OpenfortError("No embedded wallet found for the current chain", OpenfortErrorType.WALLET_ERROR),
+              error: new OpenfortError("No embedded wallet found for the current chain", OpenfortErrorType.WALLET_ERROR, undefined, { code: OpenfortErrorCode.WALLET_NOT_FOUND }),
               options: optionsObject,
               hookOptions
             });
@@ -494,14 +500,14 @@ export function useWallets(hookOptions: WalletOptions = {}) {
         let error: OpenfortError;
 
         if (err instanceof MissingRecoveryPasswordError) {
-          error = new OpenfortError("Missing recovery password", OpenfortErrorType.WALLET_ERROR);
+          error = new OpenfortError("Missing recovery password", OpenfortErrorType.WALLET_ERROR, { error: err });
         } else if (err instanceof OpenfortError) {
           error = err;
         } else if (typeof err === 'string') {
           error = new OpenfortError(err, OpenfortErrorType.WALLET_ERROR);
         } else {
           error = new OpenfortError("Failed to recover embedded wallet", OpenfortErrorType.WALLET_ERROR, { error: err });
-          if (error.message === "Wrong recovery password for this embedded signer") {
+          if (error.code === OpenfortErrorCode.WRONG_RECOVERY_PASSWORD) {
             error.message = "Wrong password, Please try again.";
           }
         }
@@ -549,14 +555,14 @@ export function useWallets(hookOptions: WalletOptions = {}) {
       const accessToken = await client.getAccessToken();
       if (!accessToken) {
         return onError({
-          error: new OpenfortError("Openfort access token not found", OpenfortErrorType.WALLET_ERROR),
+          error: new OpenfortError("Openfort access token not found", OpenfortErrorType.WALLET_ERROR, undefined, { code: OpenfortErrorCode.NOT_AUTHENTICATED }),
           hookOptions,
           options,
         })
       }
       if (!walletConfig) {
         return onError({
-          error: new OpenfortError("Embedded signer not enabled", OpenfortErrorType.WALLET_ERROR),
+          error: new OpenfortError("Embedded signer not enabled", OpenfortErrorType.WALLET_ERROR, undefined, { code: OpenfortErrorCode.CONFIGURATION_ERROR }),
           hookOptions,
           options,
         });
@@ -611,6 +617,12 @@ export function useWallets(hookOptions: WalletOptions = {}) {
         // Get the updated embedded account
         const embeddedAccount = await client.embeddedWallet.get();
 
+        events.emit('recovery:changed', {
+          previousMethod: params.previousRecovery.recoveryMethod,
+          method: params.newRecovery.recoveryMethod,
+          account: embeddedAccount,
+        });
+
         setStatus({ status: 'success' });
         return onSuccess({
           hookOptions,
@@ -628,7 +640,7 @@ export function useWallets(hookOptions: WalletOptions = {}) {
         });
       }
     },
-    [client, setStatus, hookOptions]
+    [client, setStatus, hookOptions, events]
   );
 
   return {
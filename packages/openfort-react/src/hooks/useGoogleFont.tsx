@@ -31,7 +31,7 @@ export function useGoogleFont(font: string) {
 }
 
 // OLD_TODO: This could be dynamic if theming wasn't set up as css variables
-export function useThemeFont(theme: Theme) {
+export function useThemeFont(theme: Theme, enabled = true) {
   const themeFonts: any = {
     web95: 'Lato',
     retro: 'Nunito',
@@ -40,5 +40,5 @@ export function useThemeFont(theme: Theme) {
     rounded: 'Nunito',
   };
   const font: string = themeFonts[theme] ?? null;
-  useGoogleFont(font ?? '');
+  useGoogleFont(enabled ? font ?? '' : '');
 }
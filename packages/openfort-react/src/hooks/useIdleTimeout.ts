@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { createTabSync } from '../openfort/core';
+
+const activityEvents = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'] as const;
+
+// Activity is sent to the other tabs at most this often, in milliseconds
+const activityBroadcastInterval = 5_000;
+
+type UseIdleTimeoutProps = {
+  enabled: boolean;
+  /** Inactivity in milliseconds after which `onIdle` is called. */
+  timeout: number;
+  /** Milliseconds before the timeout at which `onWarning` is called. No warning is given when omitted. */
+  warningBefore?: number;
+  onWarning?: (expiresAt: number) => void;
+  /** Called when another tab extends the session while the warning is shown. */
+  onExtended?: () => void;
+  onIdle: () => void;
+  /** Whether activity may be shared through `localStorage` when `BroadcastChannel` is unavailable. */
+  storageEvents?: boolean;
+};
+
+/**
+ * Tracks user activity on the page and calls `onIdle` after `timeout` milliseconds without any.
+ *
+ * Activity is shared with the other tabs of the same origin, so that a session used in one tab does not expire
+ * in the others. Once the warning is shown, activity no longer postpones the timeout and only `reset` does.
+ *
+ * @returns `expiresAt`, the timestamp at which the session expires while the warning is shown,
+ * and `reset` to restart the inactivity timer.
+ */
+export const useIdleTimeout = ({
+  enabled,
+  timeout,
+  warningBefore,
+  onWarning,
+  onExtended,
+  onIdle,
+  storageEvents,
+}: UseIdleTimeoutProps) => {
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const callbacks = useRef({ onWarning, onExtended, onIdle });
+  callbacks.current = { onWarning, onExtended, onIdle };
+  const restart = useRef<() => void>(() => { });
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') {
+      setExpiresAt(null);
+      return;
+    }
+
+    const hasWarning = warningBefore !== undefined;
+    const warningDelay = hasWarning ? Math.max(timeout - warningBefore, 0) : timeout;
+    let lastActivity = Date.now();
+    let lastBroadcast = 0;
+    let deadline: number | null = null;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const tabSync = createTabSync({ storageEvents });
+
+    const idle = () => {
+      deadline = null;
+      setExpiresAt(null);
+      callbacks.current.onIdle();
+    };
+
+    // Timers are throttled in background tabs, so the elapsed time is always checked against the clock
+    const check = () => {
+      const now = Date.now();
+
+      if (deadline === null) {
+        const warnAt = lastActivity + warningDelay;
+        if (now < warnAt) {
+          timer = setTimeout(check, warnAt - now);
+          return;
+        }
+        if (!hasWarning) return idle();
+
+        deadline = lastActivity + timeout;
+        setExpiresAt(deadline);
+        callbacks.current.onWarning?.(deadline);
+      }
+
+      if (now < deadline) {
+        timer = setTimeout(check, deadline - now);
+        return;
+      }
+
+      idle();
+    };
+
+    const start = () => {
+      if (timer) clearTimeout(timer);
+      lastActivity = Date.now();
+      deadline = null;
+      setExpiresAt(null);
+      timer = setTimeout(check, warningDelay);
+    };
+
+    const onActivity = () => {
+      if (deadline !== null) return;
+      lastActivity = Date.now();
+      if (lastActivity - lastBroadcast < activityBroadcastInterval) return;
+      lastBroadcast = lastActivity;
+      tabSync.post({ type: 'activity', at: lastActivity });
+    };
+
+    const unsubscribe = tabSync.subscribe((message) => {
+      if (message.type === 'activity' && deadline === null) {
+        lastActivity = Math.max(lastActivity, message.at);
+      } else if (message.type === 'sessionExtended') {
+        const warned = deadline !== null;
+        start();
+        if (warned) callbacks.current.onExtended?.();
+      }
+    });
+
+    restart.current = () => {
+      if (deadline !== null) tabSync.post({ type: 'sessionExtended' });
+      start();
+    };
+
+    activityEvents.forEach((event) => window.addEventListener(event, onActivity, { passive: true }));
+    start();
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      activityEvents.forEach((event) => window.removeEventListener(event, onActivity));
+      unsubscribe();
+      tabSync.close();
+      restart.current = () => { };
+    };
+  }, [enabled, timeout, warningBefore, storageEvents]);
+
+  const reset = useCallback(() => restart.current(), []);
+
+  return { expiresAt, reset };
+};
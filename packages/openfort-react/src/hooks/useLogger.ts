@@ -0,0 +1,11 @@
+import { useMemo } from 'react';
+import { useOpenfort } from '../components/Openfort/useOpenfort';
+import { LogNamespace } from '../openfort/core/logger';
+
+/**
+ * Returns the logger of the provider for a namespace, stable across renders.
+ */
+export const useLogger = (namespace: LogNamespace) => {
+  const { logger } = useOpenfort();
+  return useMemo(() => logger.child(namespace), [logger, namespace]);
+};
@@ -12,6 +12,24 @@ export {
   OpenfortProvider,
 } from './components/Openfort/OpenfortProvider';
 export { OpenfortButton } from './components/ConnectButton';
+export { createSIWEMessage } from './siwe/create-siwe-message';
+export type { SiweMessageParams, SiweOptions } from './siwe/create-siwe-message';
+export type { OpenfortInitialState } from './openfort/core/initialState';
+export {
+  createIndexedDBStorage,
+  createLocalStorage,
+  createMemoryStorage,
+  createSessionStorage,
+  toWagmiStorage,
+} from './openfort/core';
+export type { IndexedDBStorageOptions, OpenfortStorage } from './openfort/core';
+export { consoleSink, createLogger, redact } from './openfort/core';
+export { getOpenfortErrorCode } from './openfort/core';
+export { completeOAuthPopup } from './openfort/core';
+export { auth0AuthAdapter, firebaseAuthAdapter, supabaseAuthAdapter } from './openfort/core';
+export type { ThirdPartyAuthAdapter } from './openfort/core';
+export type { LogEntry, LogLevel, LogNamespace, Logger, LoggerSink } from './openfort/core';
+export type { AnalyticsEvent, AnalyticsEventHandler, AnalyticsEventName } from './openfort/core';
 
 //export { default as NetworkButton } from './components/NetworkButton';
 //export { default as BalanceButton, Balance } from './components/BalanceButton';
@@ -26,6 +44,8 @@ export { useStatus, OpenfortStatus } from './hooks/openfort/useStatus';
 export { useUser } from './hooks/openfort/useUser';
 
 export { useUI } from "./hooks/openfort/useUI";
+export { useOpenfortEvents, OpenfortEventHandlers } from "./hooks/openfort/useOpenfortEvents";
+export type { OpenfortEventMap, OpenfortEventName, OpenfortEventListener } from './openfort/core';
 
 export { useWallets, UserWallet } from "./hooks/openfort/useWallets";
 export { useWallet } from "./hooks/openfort/useWallet";
@@ -41,4 +61,6 @@ export { useAuthCallback } from './hooks/openfort/auth/useAuthCallback';
 export { useGuestAuth } from './hooks/openfort/auth/useGuestAuth';
 export { useWalletAuth } from './hooks/openfort/auth/useWalletAuth';
 export { useOAuth } from './hooks/openfort/auth/useOAuth';
+export { useLinkedAccounts } from './hooks/openfort/auth/useLinkedAccounts';
+export { useThirdPartyAuth } from './hooks/openfort/auth/useThirdPartyAuth';
 export { useSignOut } from './hooks/openfort/auth/useSignOut';
@@ -99,6 +99,12 @@ const arAE: LocaleProps = {
   injectionScreen_notconnected_h1: `تسجيل الدخول إلى {{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `للمتابعة، يُرجى تسجيل الدخول إلى إضافة {{ CONNECTORNAME }}.`,
 
+  injectionScreen_alreadylinked_p: `هذه المحفظة مرتبطة بالفعل بلاعب آخر. يُرجى تجربة محفظة أخرى.`,
+  injectionScreen_unverifiable_p: `تعذر على هذه المحفظة إنشاء توقيع يمكن التحقق منه. إذا كانت محفظة متعددة التوقيعات، فتأكد من توقيع جميع المالكين على الرسالة، أو جرّب محفظة أخرى.`,
+
+  injectionScreen_waitingforowners_h1: `في انتظار المالكين الآخرين`,
+  injectionScreen_waitingforowners_p: `يجب على المالكين الآخرين لهذه الـ Safe توقيع الرسالة. أبقِ هذه النافذة مفتوحة، سيتم تسجيل دخولك بمجرد توقيعهم.`,
+
   profileScreen_heading: 'متصل',
 
   switchNetworkScreen_heading: 'تبديل الشبكات',
@@ -98,6 +98,12 @@ const caAD: LocaleProps = {
   injectionScreen_notconnected_h1: `Inicia sessió en {{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `Per continuar, inicia sessió en la teva extensió de {{ CONNECTORNAME }}.`,
 
+  injectionScreen_alreadylinked_p: `Aquesta cartera ja està vinculada a un altre jugador. Prova amb una altra cartera.`,
+  injectionScreen_unverifiable_p: `Aquesta cartera no ha pogut generar una signatura verificable. Si és una multisig, assegura’t que tots els propietaris signin el missatge, o prova amb una altra cartera.`,
+
+  injectionScreen_waitingforowners_h1: `Esperant els altres propietaris`,
+  injectionScreen_waitingforowners_p: `Els altres propietaris d’aquesta Safe han de signar el missatge. Mantén aquesta finestra oberta, iniciaràs la sessió quan ho facin.`,
+
   profileScreen_heading: 'Connectat',
 
   switchNetworkScreen_heading: 'Canvi de xarxa',
@@ -97,6 +97,12 @@ const eeEE: LocaleProps = {
   injectionScreen_notconnected_h1: `Logige sisse {{ CONNECTORNAME }}-ga`,
   injectionScreen_notconnected_p: `Jätkamiseks logige sisse oma {{ CONNECTORNAME }} laiendisse.`,
 
+  injectionScreen_alreadylinked_p: `See rahakott on juba seotud teise mängijaga.\nProovige mõnda teist rahakotti.`,
+  injectionScreen_unverifiable_p: `See rahakott ei suutnud luua kontrollitavat allkirja. Kui see on multisig, veenduge, et kõik omanikud allkirjastaksid sõnumi, või proovige mõnda teist rahakotti.`,
+
+  injectionScreen_waitingforowners_h1: `Ootame teisi omanikke`,
+  injectionScreen_waitingforowners_p: `Selle Safe'i teised omanikud peavad sõnumi allkirjastama. Hoidke see aken avatuna, teid logitakse sisse kohe, kui nad seda teevad.`,
+
   profileScreen_heading: 'Ühendatud',
 
   switchNetworkScreen_heading: 'Võrkude vahetamine',
@@ -100,6 +100,12 @@ const enUS = {
   injectionScreen_notconnected_h1: `Login to {{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `To continue, please login to your {{ CONNECTORNAME }} extension.`,
 
+  injectionScreen_alreadylinked_p: `This wallet is already linked to another player.\nPlease try another wallet.`,
+  injectionScreen_unverifiable_p: `This wallet could not produce a signature that can be verified. If it is a multisig, make sure all owners sign the message, or try another wallet.`,
+
+  injectionScreen_waitingforowners_h1: `Waiting for Other Owners`,
+  injectionScreen_waitingforowners_p: `The other owners of this Safe have to sign the message. Keep this window open, you are signed in once they do.`,
+
   profileScreen_heading: 'Connected',
 
   switchNetworkScreen_heading: 'Switch Networks',
@@ -97,6 +97,12 @@ const esES: LocaleProps = {
   injectionScreen_notconnected_h1: `Inicia sesión en {{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `Para continuar, inicia sesión en tu extensión de {{ CONNECTORNAME }}.`,
 
+  injectionScreen_alreadylinked_p: `Esta cartera ya está vinculada a otro jugador. Prueba con otra cartera.`,
+  injectionScreen_unverifiable_p: `Esta cartera no ha podido generar una firma verificable. Si es una multisig, asegúrate de que todos los propietarios firmen el mensaje, o prueba con otra cartera.`,
+
+  injectionScreen_waitingforowners_h1: `Esperando a los demás propietarios`,
+  injectionScreen_waitingforowners_p: `Los demás propietarios de esta Safe deben firmar el mensaje. Mantén esta ventana abierta, iniciarás sesión en cuanto lo hagan.`,
+
   profileScreen_heading: 'Conectado',
 
   switchNetworkScreen_heading: 'Cambio de red',
@@ -97,6 +97,12 @@ const faIR: LocaleProps = {
   injectionScreen_notconnected_h1: `با ورود به {{ CONNECTORNAME }} وارد شوید`,
   injectionScreen_notconnected_p: `برای ادامه، لطفاً وارد افزونه {{ CONNECTORNAME }} خود شوید.`,
 
+  injectionScreen_alreadylinked_p: `این کیف پول قبلاً به بازیکن دیگری متصل شده است. لطفاً کیف پول دیگری را امتحان کنید.`,
+  injectionScreen_unverifiable_p: `این کیف پول نتوانست امضایی قابل تأیید ایجاد کند. اگر کیف پول چندامضایی است، مطمئن شوید همه مالکان پیام را امضا کرده‌اند، یا کیف پول دیگری را امتحان کنید.`,
+
+  injectionScreen_waitingforowners_h1: `در انتظار سایر مالکان`,
+  injectionScreen_waitingforowners_p: `سایر مالکان این Safe باید پیام را امضا کنند. این پنجره را باز نگه دارید، پس از امضای آن‌ها وارد خواهید شد.`,
+
   profileScreen_heading: 'اتصال‌ها',
 
   switchNetworkScreen_heading: 'تغییر شبکه‌ها',
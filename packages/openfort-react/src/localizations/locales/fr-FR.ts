@@ -97,6 +97,12 @@ const frFR: LocaleProps = {
   injectionScreen_notconnected_h1: `Connectez-vous à {{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `Pour continuer, veuillez vous connecter à votre extension {{ CONNECTORNAME }} .`,
 
+  injectionScreen_alreadylinked_p: `Ce portefeuille est déjà associé à un autre joueur. Veuillez essayer un autre portefeuille.`,
+  injectionScreen_unverifiable_p: `Ce portefeuille n’a pas pu produire une signature vérifiable. S’il s’agit d’un multisig, assurez-vous que tous les propriétaires signent le message, ou essayez un autre portefeuille.`,
+
+  injectionScreen_waitingforowners_h1: `En attente des autres propriétaires`,
+  injectionScreen_waitingforowners_p: `Les autres propriétaires de ce Safe doivent signer le message. Gardez cette fenêtre ouverte, vous serez connecté dès qu’ils l’auront fait.`,
+
   profileScreen_heading: 'Connecté',
 
   switchNetworkScreen_heading: 'Changer de réseau',
@@ -97,6 +97,12 @@ const jaJP: LocaleProps = {
   injectionScreen_notconnected_h1: `{{ CONNECTORNAME }} にログイン`,
   injectionScreen_notconnected_p: `続行するには、 {{ CONNECTORNAME }} 拡張機能にログインしてください。`,
 
+  injectionScreen_alreadylinked_p: `このウォレットは既に別のプレイヤーにリンクされています。別のウォレットをお試しください。`,
+  injectionScreen_unverifiable_p: `このウォレットは検証可能な署名を作成できませんでした。マルチシグの場合はすべての所有者がメッセージに署名していることを確認するか、別のウォレットをお試しください。`,
+
+  injectionScreen_waitingforowners_h1: `他の所有者を待っています`,
+  injectionScreen_waitingforowners_p: `このSafeの他の所有者がメッセージに署名する必要があります。このウィンドウを開いたままにしてください。署名が完了するとサインインします。`,
+
   profileScreen_heading: '接続されました',
 
   switchNetworkScreen_heading: 'ネットワークの切り替え',
@@ -99,6 +99,12 @@ const ptBR: LocaleProps = {
   injectionScreen_notconnected_h1: `Faça login no {{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `Para continuar, faça login na sua extensão do {{ CONNECTORNAME }}.`,
 
+  injectionScreen_alreadylinked_p: `Esta carteira já está vinculada a outro jogador.\nTente outra carteira.`,
+  injectionScreen_unverifiable_p: `Esta carteira não conseguiu gerar uma assinatura verificável. Se for uma multisig, certifique-se de que todos os proprietários assinem a mensagem, ou tente outra carteira.`,
+
+  injectionScreen_waitingforowners_h1: `Aguardando os outros proprietários`,
+  injectionScreen_waitingforowners_p: `Os outros proprietários deste Safe precisam assinar a mensagem. Mantenha esta janela aberta, você entrará assim que eles assinarem.`,
+
   profileScreen_heading: 'Conectado',
 
   switchNetworkScreen_heading: 'Alternar rede',
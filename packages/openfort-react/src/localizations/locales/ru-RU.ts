@@ -97,6 +97,12 @@ const ruRU: LocaleProps = {
   injectionScreen_notconnected_h1: `Войдите в {{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `Для продолжения войдите в расширение {{ CONNECTORNAME }}.`,
 
+  injectionScreen_alreadylinked_p: `Этот кошелек уже привязан к другому игроку.\nПопробуйте другой кошелек.`,
+  injectionScreen_unverifiable_p: `Этот кошелек не смог создать подпись, которую можно проверить. Если это мультиподписной кошелек, убедитесь, что все владельцы подписали сообщение, или попробуйте другой кошелек.`,
+
+  injectionScreen_waitingforowners_h1: `Ожидание других владельцев`,
+  injectionScreen_waitingforowners_p: `Другие владельцы этого Safe должны подписать сообщение. Не закрывайте это окно, вы войдете, как только они это сделают.`,
+
   profileScreen_heading: 'Кошелек подключен',
 
   switchNetworkScreen_heading: 'Переключение сетей',
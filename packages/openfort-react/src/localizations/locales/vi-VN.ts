@@ -97,6 +97,12 @@ const viVN: LocaleProps = {
   injectionScreen_notconnected_h1: `Đăng nhập vào {{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `Để tiếp tục, vui lòng đăng nhập bằng tiện ích {{ CONNECTORNAME }}.`,
 
+  injectionScreen_alreadylinked_p: `Ví này đã được liên kết với người chơi khác.\nVui lòng thử ví khác.`,
+  injectionScreen_unverifiable_p: `Ví này không thể tạo chữ ký có thể xác minh. Nếu đây là ví đa chữ ký, hãy đảm bảo tất cả chủ sở hữu đều ký tin nhắn, hoặc thử ví khác.`,
+
+  injectionScreen_waitingforowners_h1: `Đang chờ các chủ sở hữu khác`,
+  injectionScreen_waitingforowners_p: `Các chủ sở hữu khác của Safe này cần ký tin nhắn. Hãy giữ cửa sổ này mở, bạn sẽ được đăng nhập khi họ ký xong.`,
+
   profileScreen_heading: 'Đã kết nối',
 
   switchNetworkScreen_heading: 'Đổi mạng',
@@ -97,6 +97,12 @@ const zhCN: LocaleProps = {
   injectionScreen_notconnected_h1: `登录{{ CONNECTORNAME }}`,
   injectionScreen_notconnected_p: `要继续，请登录到您的{{ CONNECTORNAME }}扩展程序。`,
 
+  injectionScreen_alreadylinked_p: `此钱包已关联到其他玩家。请尝试其他钱包。`,
+  injectionScreen_unverifiable_p: `此钱包无法生成可验证的签名。如果是多签钱包，请确保所有所有者都已签署消息，或尝试其他钱包。`,
+
+  injectionScreen_waitingforowners_h1: `正在等待其他所有者`,
+  injectionScreen_waitingforowners_p: `此 Safe 的其他所有者需要签署消息。请保持此窗口打开，他们签署后您即可登录。`,
+
   profileScreen_heading: '已绑定',
 
   switchNetworkScreen_heading: '切换网络',
@@ -1,12 +1,16 @@
-import { AuthPlayerResponse, EmbeddedAccount, EmbeddedState, Openfort, OpenfortError, RecoveryMethod } from '@openfort/openfort-js';
+import { AuthPlayerResponse, EmbeddedAccount, EmbeddedState, Openfort, OpenfortEvents, RecoveryMethod } from '@openfort/openfort-js';
 import React, { createElement, PropsWithChildren, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Hex } from 'viem';
 import { polygonAmoy } from 'viem/chains';
 import { useAccount, useChainId, useDisconnect } from 'wagmi';
+import { routes } from '../components/Openfort/types';
 import { useOpenfort } from '../components/Openfort/useOpenfort';
+import { embeddedAccountStorageKey } from '../constants/openfort';
+import { useIdleTimeout } from '../hooks/useIdleTimeout';
 import { useConnect } from '../hooks/useConnect';
 import { useConnectCallback, useConnectCallbackProps } from '../hooks/useConnectCallback';
 import { Context } from './context';
-import { createOpenfortClient, setDefaultClient } from './core';
+import { AccessTokenRefreshScheduler, createOpenfortClient, createTabSync, getErrorStatus, getRetryDelay, EmbeddedStateSubscription, isLocalStorage, isRetryableError, OpenfortInitialState, scheduleAccessTokenRefresh, setDefaultClient, shouldRetry, subscribeToEmbeddedState, TabSync, withRetry, writeOpenfortInitialStateCookie } from './core';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 
 export type ContextValue = {
@@ -21,6 +25,20 @@ export type ContextValue = {
   embeddedAccounts?: EmbeddedAccount[];
   isLoadingAccounts: boolean;
 
+  /** Whether Openfort could not be reached and the session is kept while retrying. */
+  isReconnecting: boolean;
+
+  /** Address of the connected wallet. Falls back to the initial state until wagmi reconnects. */
+  address?: Hex;
+
+  /** Timestamp in milliseconds at which the access token expires, `null` when signed out. */
+  accessTokenExpiresAt: number | null;
+
+  /** Timestamp at which the idle session expires, only set while the inactivity warning is shown. */
+  sessionExpiresAt: number | null;
+  /** Restarts the inactivity timer configured with `uiConfig.session`. */
+  extendSession: () => void;
+
   logout: () => void;
 
   client: Openfort;
@@ -36,29 +54,44 @@ const ConnectCallback = ({ onConnect, onDisconnect }: useConnectCallbackProps) =
 }
 
 export type CoreOpenfortProviderProps = {
-  debugMode?: boolean;
+  /** Client used instead of creating one from the configuration. */
+  client?: Openfort;
+  /** Session snapshot used for the first render, usually read from a cookie on the server. */
+  initialState?: OpenfortInitialState;
+  /** Persists a session snapshot in a cookie so the server can render the known user. */
+  ssr?: boolean;
 } & ConstructorParameters<typeof Openfort>[0] & useConnectCallbackProps;
 
 export const CoreOpenfortProvider: React.FC<PropsWithChildren<CoreOpenfortProviderProps>> = (
   {
     children,
-    debugMode,
+    client,
+    initialState,
+    ssr,
     onConnect,
     onDisconnect,
     ...openfortProps
   }
 ) => {
-  const log = debugMode ? console.log : () => { };
+  const { walletConfig, events, storage, uiConfig, route, setOpen, setRoute, retryPolicy, logger: rootLogger } = useOpenfort();
+  const logger = useMemo(() => rootLogger.child('core'), [rootLogger]);
+  const log = logger.debug;
 
   const { connectors, connect, reset } = useConnect();
-  const { address } = useAccount();
+  const { address: connectedAddress } = useAccount();
   const [user, setUser] = useState<AuthPlayerResponse | null>(null);
 
   const { disconnectAsync } = useDisconnect();
-  const { walletConfig } = useOpenfort();
 
   // ---- Openfort instance ----
-  const openfort = useMemo(() => {
+  // Created once, later changes of the client or its configuration are ignored
+  const [openfort] = useState(() => {
+    if (client) {
+      log('Using the provided Openfort instance.');
+      setDefaultClient(client);
+      return client;
+    }
+
     log('Creating Openfort instance.', openfortProps);
 
     if (!openfortProps.baseConfiguration.publishableKey)
@@ -77,79 +110,177 @@ export const CoreOpenfortProvider: React.FC<PropsWithChildren<CoreOpenfortProvid
 
     setDefaultClient(newClient);
     return newClient;
-  }, []);
+  });
 
   // ---- Embedded state ----
   const [embeddedState, setEmbeddedState] = useState<EmbeddedState>(EmbeddedState.NONE);
-  const pollingRef = useRef<NodeJS.Timeout | null>(null);
+  const embeddedStateSubscription = useRef<EmbeddedStateSubscription | null>(null);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  // Number of times the retries of `loadUser` ran out since Openfort was last reached
+  const [reconnectAttempts, setReconnectAttempts] = useState(0);
 
-  const pollEmbeddedState = useCallback(async () => {
+  useEffect(() => {
     if (!openfort) return;
 
-    try {
-      const state = await openfort.embeddedWallet.getEmbeddedState();
-      log("Polling embedded state", state);
-      setEmbeddedState(state);
-    } catch (error) {
-      console.error('Error checking embedded state with Openfort:', error);
-      if (pollingRef.current) clearInterval(pollingRef.current);
-    }
-  }, [openfort]);
+    const subscription = subscribeToEmbeddedState(
+      openfort,
+      (state, previous) => {
+        log("Embedded state transition", previous, "->", state);
+        setEmbeddedState(state);
+      },
+      {
+        onError: (error) => logger.error('Error checking embedded state with Openfort', error),
+      }
+    );
+    embeddedStateSubscription.current = subscription;
+
+    return () => {
+      subscription.unsubscribe();
+      embeddedStateSubscription.current = null;
+    };
+  }, [openfort, log, logger]);
 
-  const startPollingEmbeddedState = useCallback(() => {
+  // ---- Auth functions ----
 
-    if (!!pollingRef.current) return;
-    log("Starting polling embedded state", pollingRef.current, !!pollingRef.current);
-    pollingRef.current = setInterval(pollEmbeddedState, 300);
-  }, [pollEmbeddedState]);
+  const queryClient = useQueryClient();
+  // Tells the other tabs about session changes, set up by the cross-tab synchronisation effect below
+  const tabSync = useRef<TabSync | null>(null);
 
-  const stopPollingEmbeddedState = useCallback(() => {
-    log("Stopping polling embedded state");
-    clearInterval(pollingRef.current || undefined);
-    pollingRef.current = null;
-  }, []);
+  // Clears the local session state, the SDK session itself is cleared by `logout`
+  const clearSession = useCallback(async () => {
+    setUser(null);
+    if (ssr) writeOpenfortInitialStateCookie(null);
+    setIsReconnecting(false);
+    setReconnectAttempts(0);
+    await disconnectAsync();
+    queryClient.resetQueries({ queryKey: ['openfortEmbeddedAccountsList'] })
+    reset();
+    embeddedStateSubscription.current?.refresh();
+  }, [ssr, disconnectAsync, queryClient, reset]);
 
-  useEffect(() => {
+  const logout = useCallback(async () => {
     if (!openfort) return;
 
-    startPollingEmbeddedState();
-
-    return () => {
-      stopPollingEmbeddedState();
-    };
-  }, [openfort]);
+    setUser(null);
+    log('Logging out...');
+    await openfort.auth.logout();
+    tabSync.current?.post({ type: 'logout' });
+    await clearSession();
+  }, [openfort, log, clearSession]);
 
-  const updateUser = useCallback(async (user?: AuthPlayerResponse, logoutOnError: boolean = false) => {
+  const loadUser = useCallback(async (user?: AuthPlayerResponse, logoutOnError: boolean = false) => {
     if (!openfort) return null;
     log("Updating user", { user, logoutOnError });
+    // Not every login path emits an SDK event, so the embedded state is re-read once the user is known
 
     if (user) {
       setUser(user);
+      embeddedStateSubscription.current?.refresh();
       return user;
     }
 
     try {
-      const user = await openfort.user.get()
+      const user = await withRetry(() => openfort.user.get(), retryPolicy, (error, attempt, delay) => {
+        log(`Error getting user, retrying in ${Math.round(delay)}ms (attempt ${attempt})`, error);
+        setIsReconnecting(true);
+      });
       log("Getting user");
       setUser(user);
+      setIsReconnecting(false);
+      setReconnectAttempts(0);
+      embeddedStateSubscription.current?.refresh();
       return user;
-    } catch (err: OpenfortError | any) {
+    } catch (err) {
       log("Error getting user", err);
+      setIsReconnecting(false);
       if (!logoutOnError) return null;
 
-      if (err?.response?.status === 404) {
+      const status = getErrorStatus(err);
+      if (status === 404) {
         log("User not found, logging out");
         logout();
-      } else if (err?.response?.status === 401) {
+      } else if (status === 401) {
         log("User not authenticated, logging out");
         logout();
+      } else if (isRetryableError(err)) {
+        // Transient failures keep the session, the user is fetched again later or once the device is back online
+        log("Could not reach Openfort, keeping the session");
+        setIsReconnecting(true);
+        setReconnectAttempts((attempts) => attempts + 1);
+      } else {
+        setReconnectAttempts(0);
       }
       return null;
     }
-  }, [openfort]);
+  }, [openfort, retryPolicy, log, logout]);
 
   const chainId = useChainId();
 
+  // ---- Access token ----
+
+  const [accessTokenExpiresAt, setAccessTokenExpiresAt] = useState<number | null>(null);
+  const accessTokenScheduler = useRef<AccessTokenRefreshScheduler | null>(null);
+
+  useEffect(() => {
+    if (!openfort) return;
+
+    const scheduler = scheduleAccessTokenRefresh(openfort, {
+      onExpiryChange: setAccessTokenExpiresAt,
+      onRefreshed: (accessToken, expiresAt) => {
+        log("Access token refreshed, expires at", expiresAt);
+        events.emit('auth:tokenRefreshed', { accessToken, expiresAt });
+      },
+      onError: (error) => logger.error('Error refreshing the Openfort access token', error),
+    });
+    accessTokenScheduler.current = scheduler;
+
+    return () => {
+      scheduler.unsubscribe();
+      accessTokenScheduler.current = null;
+    };
+  }, [openfort, events, log, logger]);
+
+  // Not every login path emits an SDK event, so the token is re-read whenever the user changes
+  useEffect(() => {
+    accessTokenScheduler.current?.reschedule();
+  }, [user?.id]);
+
+  // ---- Lifecycle events ----
+
+  const previousUser = useRef(user);
+  useEffect(() => {
+    const previous = previousUser.current;
+    previousUser.current = user;
+    if (previous === user) return;
+
+    if (previous && (!user || user.id !== previous.id)) events.emit('auth:logout', { user: previous });
+
+    if (!user) return;
+    if (previous?.id === user.id) events.emit('user:updated', { user });
+    else events.emit('auth:login', { user });
+  }, [user, events]);
+
+  useEffect(() => {
+    if (!openfort) return;
+
+    const onWalletCreated = (account: EmbeddedAccount) => events.emit('wallet:created', { account });
+    const onWalletRecovered = (account: EmbeddedAccount) => events.emit('wallet:recovered', { account });
+
+    openfort.eventEmitter.on(OpenfortEvents.ON_EMBEDDED_WALLET_CREATED, onWalletCreated);
+    openfort.eventEmitter.on(OpenfortEvents.ON_EMBEDDED_WALLET_RECOVERED, onWalletRecovered);
+    return () => {
+      openfort.eventEmitter.off(OpenfortEvents.ON_EMBEDDED_WALLET_CREATED, onWalletCreated);
+      openfort.eventEmitter.off(OpenfortEvents.ON_EMBEDDED_WALLET_RECOVERED, onWalletRecovered);
+    };
+  }, [openfort, events]);
+
+  const previousChainId = useRef(chainId);
+  useEffect(() => {
+    if (previousChainId.current === chainId) return;
+    events.emit('chain:switched', { chainId, previousChainId: previousChainId.current });
+    previousChainId.current = chainId;
+  }, [chainId, events]);
+
   useEffect(() => {
     if (!openfort || !walletConfig) return;
 
@@ -174,7 +305,7 @@ export const CoreOpenfortProvider: React.FC<PropsWithChildren<CoreOpenfortProvid
     };
 
     openfort.embeddedWallet.getEthereumProvider(resolvePolicy());
-  }, [openfort, walletConfig, chainId]);
+  }, [openfort, walletConfig, chainId, log]);
 
   const [isConnectedWithEmbeddedSigner, setIsConnectedWithEmbeddedSigner] = useState(false);
 
@@ -184,15 +315,36 @@ export const CoreOpenfortProvider: React.FC<PropsWithChildren<CoreOpenfortProvid
     queryFn: () => openfort.embeddedWallet.list(),
     refetchOnMount: false,
     refetchOnWindowFocus: false,
+    retry: (failureCount, error) => shouldRetry(error, failureCount + 1, retryPolicy),
+    retryDelay: (failureCount) => getRetryDelay(failureCount + 1, retryPolicy),
   })
 
   useEffect(() => {
-    if (!openfort) return;
-    // Poll embedded signer state
+    if (!isReconnecting) return;
 
-    log("Embedded state update", embeddedState);
+    const onOnline = () => {
+      log("Back online, fetching user");
+      loadUser(undefined, true);
+    };
+    window.addEventListener('online', onOnline);
 
-    switch (embeddedState) {
+    // Once the retries of `loadUser` ran out, it runs again after the backoff of the policy
+    const timer = reconnectAttempts > 0 ? setTimeout(() => {
+      log(`Fetching user again (attempt ${reconnectAttempts})`);
+      loadUser(undefined, true);
+    }, getRetryDelay(reconnectAttempts, retryPolicy)) : undefined;
+
+    return () => {
+      window.removeEventListener('online', onOnline);
+      clearTimeout(timer);
+    };
+  }, [isReconnecting, reconnectAttempts, loadUser, retryPolicy, log]);
+
+  // React to embedded signer state transitions
+  const onEmbeddedStateChange = (state: EmbeddedState) => {
+    log("Embedded state update", state);
+
+    switch (state) {
       case EmbeddedState.NONE:
       case EmbeddedState.CREATING_ACCOUNT:
         break;
@@ -202,34 +354,32 @@ export const CoreOpenfortProvider: React.FC<PropsWithChildren<CoreOpenfortProvid
 
       case EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED:
         if (!user)
-          updateUser(undefined, true);
+          loadUser(undefined, true);
 
         setIsConnectedWithEmbeddedSigner(false);
         fetchEmbeddedAccounts();
 
         break;
       case EmbeddedState.READY:
-        (async () => {
-          for (let i = 0; i < 5; i++) {
-            log("Trying to update user...", i);
-            try {
-              const user = await updateUser(undefined, true);
-              if (user) break;
-            } catch (err) {
-              console.error("Error updating user, retrying...", err);
-            }
-            await new Promise((resolve) => setTimeout(resolve, 250));
-          }
-        })();
+        loadUser(undefined, true);
         break;
       default:
-        throw new Error(`Unknown embedded state: ${embeddedState}`);
+        throw new Error(`Unknown embedded state: ${state}`);
     }
+  };
+
+  // Only a change of state runs the handler, the latest user and callbacks are used
+  const onEmbeddedStateChangeRef = useRef(onEmbeddedStateChange);
+  onEmbeddedStateChangeRef.current = onEmbeddedStateChange;
+
+  useEffect(() => {
+    if (!openfort) return;
+    onEmbeddedStateChangeRef.current(embeddedState);
   }, [embeddedState, openfort]);
 
   useEffect(() => {
     // Connect to wagmi with Embedded signer
-    if (address || !user) return;
+    if (connectedAddress || !user) return;
     if (isConnectedWithEmbeddedSigner) return;
 
     if (embeddedState !== EmbeddedState.READY) return;
@@ -239,24 +389,135 @@ export const CoreOpenfortProvider: React.FC<PropsWithChildren<CoreOpenfortProvid
     log("Connecting to wagmi with Openfort");
     setIsConnectedWithEmbeddedSigner(true);
     connect({ connector });
-  }, [connectors, embeddedState, address, user]);
+  }, [connectors, embeddedState, connectedAddress, user, isConnectedWithEmbeddedSigner, connect, log]);
 
+  // ---- Server-side rendering ----
 
+  // Until the SDK reports its state, the initial state is the best guess for the first render
+  const hydratedEmbeddedState = embeddedState === EmbeddedState.NONE
+    ? initialState?.embeddedState ?? EmbeddedState.NONE
+    : embeddedState;
 
-  // ---- Auth functions ----
+  const [hasConnected, setHasConnected] = useState(false);
+  useEffect(() => {
+    if (connectedAddress) setHasConnected(true);
+  }, [connectedAddress]);
 
-  const queryClient = useQueryClient();
-  const logout = useCallback(async () => {
-    if (!openfort) return;
+  // The snapshot address bridges the gap until wagmi reconnects the wallet
+  const address = connectedAddress
+    ?? (!hasConnected && hydratedEmbeddedState === EmbeddedState.READY ? initialState?.address : undefined);
 
-    setUser(null);
-    log('Logging out...');
-    await openfort.auth.logout();
+  const [hasLoadedUser, setHasLoadedUser] = useState(false);
+  useEffect(() => {
+    if (user) setHasLoadedUser(true);
+  }, [user]);
+
+  // The snapshot user is shown until the user is fetched, or the SDK reports that nobody is signed in
+  const hydratedUser = user
+    ?? (!hasLoadedUser && hydratedEmbeddedState !== EmbeddedState.UNAUTHENTICATED ? initialState?.user ?? null : null);
+
+  useEffect(() => {
+    if (!ssr) return;
+
+    switch (embeddedState) {
+      case EmbeddedState.UNAUTHENTICATED:
+        writeOpenfortInitialStateCookie(null);
+        break;
+      case EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED:
+        if (user) writeOpenfortInitialStateCookie({ embeddedState, user, address: connectedAddress });
+        break;
+      case EmbeddedState.READY:
+        if (user && connectedAddress) writeOpenfortInitialStateCookie({ embeddedState, user, address: connectedAddress });
+        break;
+    }
+  }, [ssr, embeddedState, user, connectedAddress]);
+
+  // ---- Inactivity timeout ----
+
+  // Forgets the recovered embedded account, so the recovery password has to be entered again
+  const lockSigner = useCallback(async () => {
+    log('Locking embedded signer...');
+    storage.remove(embeddedAccountStorageKey);
+    setIsConnectedWithEmbeddedSigner(false);
     await disconnectAsync();
-    queryClient.resetQueries({ queryKey: ['openfortEmbeddedAccountsList'] })
-    reset();
-    startPollingEmbeddedState();
-  }, [openfort]);
+    tabSync.current?.post({ type: 'embeddedAccountsInvalidated' });
+    embeddedStateSubscription.current?.refresh();
+  }, [storage, log, disconnectAsync]);
+
+  // The fallback of the cross-tab synchronisation writes to `localStorage`, so it is only used when the session is kept there
+  const storageEvents = isLocalStorage(storage);
+
+  const { expiresAt: sessionExpiresAt, reset: extendSession } = useIdleTimeout({
+    enabled: !!user && !!uiConfig.session,
+    timeout: uiConfig.session?.idleTimeout ?? 0,
+    warningBefore: uiConfig.session?.warningBefore,
+    onWarning: () => {
+      setOpen(true);
+      setRoute(routes.SESSION_TIMEOUT);
+    },
+    onExtended: () => {
+      if (route === routes.SESSION_TIMEOUT) setOpen(false);
+    },
+    onIdle: async () => {
+      log('Session is idle, signing out');
+      setOpen(false);
+      await lockSigner();
+      await logout();
+    },
+    storageEvents,
+  });
+
+  // ---- Cross-tab synchronisation ----
+
+  const currentUser = useRef(user);
+  currentUser.current = user;
+
+  const updateUser = useCallback(async (user?: AuthPlayerResponse) => {
+    const wasLoggedIn = !!currentUser.current;
+    const updatedUser = await loadUser(user);
+    if (updatedUser) tabSync.current?.post({ type: wasLoggedIn ? 'userUpdated' : 'login' });
+    return updatedUser;
+  }, [loadUser]);
+
+  useEffect(() => {
+    if (!openfort) return;
+
+    const sync = createTabSync({ storageEvents });
+    tabSync.current = sync;
+
+    const unsubscribe = sync.subscribe((message) => {
+      log("Session change from another tab", message);
+
+      switch (message.type) {
+        case 'login':
+        case 'userUpdated':
+          loadUser(undefined, true);
+          break;
+        case 'logout':
+          clearSession();
+          break;
+        case 'embeddedAccountsInvalidated':
+          queryClient.invalidateQueries({ queryKey: ['openfortEmbeddedAccountsList'] });
+          embeddedStateSubscription.current?.refresh();
+          break;
+      }
+    });
+
+    // Wallet changes update the embedded accounts of every tab
+    const invalidateAccounts = () => sync.post({ type: 'embeddedAccountsInvalidated' });
+    const unsubscribeEvents = [
+      events.on('wallet:created', invalidateAccounts),
+      events.on('wallet:recovered', invalidateAccounts),
+      events.on('recovery:changed', invalidateAccounts),
+    ];
+
+    return () => {
+      unsubscribe();
+      unsubscribeEvents.forEach((unsubscribeEvent) => unsubscribeEvent());
+      sync.close();
+      tabSync.current = null;
+    };
+  }, [openfort, events, log, loadUser, clearSession, queryClient, storageEvents]);
 
   const signUpGuest = useCallback(async () => {
     if (!openfort) return;
@@ -266,32 +527,32 @@ export const CoreOpenfortProvider: React.FC<PropsWithChildren<CoreOpenfortProvid
       const res = await openfort.auth.signUpGuest();
       log('Signed up as guest:', res);
     } catch (error) {
-      console.error('Error logging in as guest:', error);
+      logger.error('Error logging in as guest', error);
     }
-  }, [openfort]);
+  }, [openfort, log, logger]);
 
 
   // ---- Return values ----
 
   const isLoading = useCallback(() => {
-    switch (embeddedState) {
+    switch (hydratedEmbeddedState) {
       case EmbeddedState.NONE:
       case EmbeddedState.CREATING_ACCOUNT:
         return true;
 
       case EmbeddedState.UNAUTHENTICATED:
-        if (user) return true; // If user i<s set in unauthenticated state, it means that the embedded state is not up to date, so we should wait
+        if (hydratedUser) return true; // If user i<s set in unauthenticated state, it means that the embedded state is not up to date, so we should wait
         return false;
 
       case EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED:
-        if (!user)
+        if (!hydratedUser)
           return true;
 
         // If automatic recovery is enabled, we should wait for the embedded signer to be ready
         return false;
       case EmbeddedState.READY:
         // We should wait for the user to be set  
-        if (!address || !user)
+        if (!address || !hydratedUser)
           return true;
         else
           return false;
@@ -299,27 +560,36 @@ export const CoreOpenfortProvider: React.FC<PropsWithChildren<CoreOpenfortProvid
       default:
         return true;
     }
-  }, [embeddedState, address, user]);
+  }, [hydratedEmbeddedState, address, hydratedUser]);
 
   const needsRecovery = (
-    embeddedState === EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED
+    hydratedEmbeddedState === EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED
   ) && (
       !address
     );
 
   const value: ContextValue = {
     signUpGuest,
-    embeddedState,
+    embeddedState: hydratedEmbeddedState,
     logout,
 
     isLoading: isLoading(),
     needsRecovery,
-    user,
+    user: hydratedUser,
     updateUser,
 
     embeddedAccounts,
     isLoadingAccounts,
 
+    isReconnecting,
+
+    address,
+
+    accessTokenExpiresAt,
+
+    sessionExpiresAt,
+    extendSession,
+
     client: openfort,
   };
 
@@ -0,0 +1,176 @@
+import { Openfort as OpenfortClient, OpenfortEvents } from '@openfort/openfort-js';
+
+/**
+ * Reads the expiry of a JWT access token.
+ *
+ * @param token - Access token as returned by `client.getAccessToken()`.
+ * @returns The expiry as a timestamp in milliseconds, or `null` when the token is not a JWT with an `exp` claim.
+ */
+export function decodeAccessTokenExpiry(token: string | null): number | null {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const { exp } = JSON.parse(atob(base64.padEnd(base64.length + (4 - (base64.length % 4)) % 4, '=')));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export type AccessTokenRefreshOptions = {
+  /**
+   * How long before the expiry the token is refreshed, in milliseconds.
+   *
+   * @defaultValue 60000
+   */
+  refreshBefore?: number;
+  /** Called with the current expiry whenever it is read, `null` when there is no session. */
+  onExpiryChange?: (expiresAt: number | null) => void;
+  /** Called after the token was refreshed. */
+  onRefreshed?: (accessToken: string, expiresAt: number | null) => void;
+  /**
+   * Delay before retrying a failed refresh, or a refresh that did not extend the expiry, in milliseconds.
+   *
+   * @defaultValue 30000
+   */
+  retryDelay?: number;
+  /** Called when refreshing the token fails. */
+  onError?: (error: unknown) => void;
+};
+
+export type AccessTokenRefreshScheduler = {
+  /** Re-reads the access token and schedules the next refresh. */
+  reschedule: () => Promise<void>;
+  /** Stops the scheduler and removes every SDK and document listener. */
+  unsubscribe: () => void;
+};
+
+/**
+ * Refreshes the access token of an {@link OpenfortClient} shortly before it expires.
+ *
+ * The token is also checked as soon as the tab becomes visible again or the device comes back online,
+ * since timers do not run reliably while a tab is in the background or the device is asleep.
+ *
+ * @param client - Openfort client whose access token should be kept fresh.
+ * @param options - Optional refresh margin and callbacks.
+ * @returns A handle to reschedule or to stop the scheduler.
+ *
+ * @example
+ * ```ts
+ * const scheduler = scheduleAccessTokenRefresh(client, {
+ *   onRefreshed: (token) => fetch('/api/session', { method: 'POST', body: token }),
+ * });
+ *
+ * // Later, e.g. when unmounting
+ * scheduler.unsubscribe();
+ * ```
+ */
+export function scheduleAccessTokenRefresh(
+  client: OpenfortClient,
+  {
+    refreshBefore = 60_000,
+    retryDelay = 30_000,
+    onExpiryChange,
+    onRefreshed,
+    onError,
+  }: AccessTokenRefreshOptions = {}
+): AccessTokenRefreshScheduler {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let expiresAt: number | null = null;
+  let refreshing: Promise<void> | null = null;
+  let active = true;
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const setExpiry = (next: number | null) => {
+    if (next === expiresAt) return;
+    expiresAt = next;
+    onExpiryChange?.(next);
+  };
+
+  const schedule = (minDelay = 0) => {
+    clearTimer();
+    if (!active || expiresAt === null) return;
+    timer = setTimeout(refresh, Math.max(expiresAt - refreshBefore - Date.now(), minDelay));
+  };
+
+  const reschedule = async () => {
+    try {
+      const token = await client.getAccessToken();
+      if (!active) return;
+      setExpiry(decodeAccessTokenExpiry(token));
+      schedule();
+    } catch (error) {
+      onError?.(error);
+    }
+  };
+
+  // Concurrent callers share the same in-flight refresh
+  function refresh() {
+    if (!refreshing) {
+      let failed = false;
+      const previousExpiresAt = expiresAt;
+      refreshing = (async () => {
+        const previousToken = await client.getAccessToken();
+        await client.validateAndRefreshToken(true);
+        const token = await client.getAccessToken();
+        if (!active) return;
+
+        setExpiry(decodeAccessTokenExpiry(token));
+        if (token && token !== previousToken) onRefreshed?.(token, expiresAt);
+      })()
+        .catch((error) => {
+          failed = true;
+          onError?.(error);
+        })
+        .finally(() => {
+          refreshing = null;
+          // A token whose expiry did not move forward would be due again right away
+          const extended = expiresAt !== null && (previousExpiresAt === null || expiresAt > previousExpiresAt);
+          schedule(failed || !extended ? retryDelay : 0);
+        });
+    }
+    return refreshing;
+  }
+
+  const refreshIfDue = () => {
+    if (expiresAt !== null && Date.now() >= expiresAt - refreshBefore) refresh();
+  };
+
+  const onVisibilityChange = () => {
+    if (!document.hidden) refreshIfDue();
+  };
+
+  const onLogout = () => {
+    clearTimer();
+    setExpiry(null);
+  };
+
+  client.eventEmitter.on(OpenfortEvents.ON_AUTH_SUCCESS, reschedule);
+  client.eventEmitter.on(OpenfortEvents.ON_LOGOUT, onLogout);
+  if (typeof window !== 'undefined') {
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('online', refreshIfDue);
+  }
+
+  reschedule();
+
+  return {
+    reschedule,
+    unsubscribe: () => {
+      active = false;
+      clearTimer();
+      client.eventEmitter.off(OpenfortEvents.ON_AUTH_SUCCESS, reschedule);
+      client.eventEmitter.off(OpenfortEvents.ON_LOGOUT, onLogout);
+      if (typeof window !== 'undefined') {
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+        window.removeEventListener('online', refreshIfDue);
+      }
+    },
+  };
+}
@@ -0,0 +1,111 @@
+export type AnalyticsEventName =
+  /** The modal navigated to a new step. */
+  | 'step_viewed'
+  /** The modal was closed, `duration` is the time spent on the last step. */
+  | 'modal_closed'
+  | 'provider_selected'
+  | 'email_signup_submitted'
+  | 'email_signup_completed'
+  | 'email_signup_failed'
+  | 'email_verification_pending'
+  | 'recovery_method_selected'
+  | 'wallet_created'
+  | 'wallet_creation_failed'
+  | 'wallet_recovered'
+  | 'wallet_recovery_failed'
+  | 'wallet_connect_started'
+  | 'wallet_connected'
+  | 'wallet_connect_failed';
+
+/**
+ * Funnel event reported by the connect modal.
+ *
+ * Events only describe the flow, they never contain emails, addresses, tokens or error messages.
+ */
+export type AnalyticsEvent = {
+  name: AnalyticsEventName;
+  /** Route of the modal when the event happened, `null` when the modal is closed. */
+  step: string | null;
+  /** Route the modal navigated from, only set on `step_viewed`. */
+  previousStep?: string | null;
+  /** Authentication provider, wallet connector or recovery method involved in the event. */
+  provider?: string;
+  /** Milliseconds spent on the step before the event, for `step_viewed` the time spent on the previous step. */
+  duration: number;
+  /** Category of the failure, e.g. an `OpenfortErrorType`, never the error message. */
+  errorType?: string;
+  timestamp: number;
+};
+
+export type AnalyticsEventHandler = (event: AnalyticsEvent) => void;
+
+export type AnalyticsEventProperties = Pick<AnalyticsEvent, 'provider' | 'errorType'>;
+
+export type AnalyticsTracker = {
+  /** Reports an event on the current step. */
+  track: (name: AnalyticsEventName, properties?: AnalyticsEventProperties) => void;
+  /** Moves the funnel to a step, reporting `step_viewed` when it changed. */
+  enterStep: (step: string) => void;
+  /** Reports `modal_closed` when a step is active and resets the funnel. */
+  close: () => void;
+};
+
+/**
+ * Reads the category of an error without its message, which may contain personal data.
+ *
+ * @returns The `type` of an `OpenfortError`, the `name` of any other error or `'unknown'`.
+ */
+export function getAnalyticsErrorType(error: unknown): string {
+  if (error && typeof error === 'object') {
+    const { type, name } = error as { type?: unknown; name?: unknown };
+    if (typeof type === 'string') return type;
+    if (typeof name === 'string') return name;
+  }
+  return 'unknown';
+}
+
+/**
+ * Creates a tracker that times the steps of a funnel and reports {@link AnalyticsEvent}s.
+ *
+ * @param handler - Receives every event, errors thrown by it are ignored.
+ * @returns The tracker, its methods can be passed around without binding.
+ *
+ * @example
+ * ```ts
+ * const analytics = createAnalyticsTracker((event) => posthog.capture(`openfort_${event.name}`, event));
+ *
+ * analytics.enterStep('providers');
+ * analytics.track('provider_selected', { provider: 'google' });
+ * ```
+ */
+export function createAnalyticsTracker(handler: AnalyticsEventHandler): AnalyticsTracker {
+  let step: string | null = null;
+  let stepStartedAt = Date.now();
+
+  const send = (event: Omit<AnalyticsEvent, 'timestamp'>) => {
+    try {
+      handler({ ...event, timestamp: Date.now() });
+    } catch {
+      // Analytics must never break the flow that is being measured
+    }
+  };
+
+  return {
+    track: (name, properties) => {
+      send({ name, step, duration: Date.now() - stepStartedAt, ...properties });
+    },
+    enterStep: (nextStep) => {
+      if (nextStep === step) return;
+      const now = Date.now();
+      send({ name: 'step_viewed', step: nextStep, previousStep: step, duration: step === null ? 0 : now - stepStartedAt });
+      step = nextStep;
+      stepStartedAt = now;
+    },
+    close: () => {
+      if (step === null) return;
+      send({ name: 'modal_closed', step, duration: Date.now() - stepStartedAt });
+      step = null;
+      stepStartedAt = Date.now();
+    },
+  };
+}
@@ -0,0 +1,169 @@
+import { EmbeddedState, Openfort as OpenfortClient, OpenfortEvents } from '@openfort/openfort-js';
+
+/**
+ * Options that control how {@link subscribeToEmbeddedState} polls the embedded state.
+ */
+export type EmbeddedStateSubscriptionOptions = {
+  /**
+   * Polling interval used right after a transition or an explicit refresh, in milliseconds.
+   *
+   * @defaultValue 300
+   */
+  minInterval?: number;
+  /**
+   * Upper bound for the polling interval while the state does not change, in milliseconds.
+   *
+   * @defaultValue 5000
+   */
+  maxInterval?: number;
+  /**
+   * Factor applied to the polling interval after every poll that did not observe a transition.
+   *
+   * @defaultValue 2
+   */
+  backoffFactor?: number;
+  /** Called when reading the embedded state fails. Polling keeps backing off after an error. */
+  onError?: (error: unknown) => void;
+};
+
+export type EmbeddedStateListener = (state: EmbeddedState, previous: EmbeddedState | null) => void;
+
+export type EmbeddedStateSubscription = {
+  /** Reads the embedded state immediately and resets the polling interval. */
+  refresh: () => Promise<void>;
+  /** Stops polling and removes every SDK and document listener. */
+  unsubscribe: () => void;
+};
+
+// SDK events after which the embedded state is likely to have changed
+const transitionEvents = [
+  OpenfortEvents.ON_AUTH_SUCCESS,
+  OpenfortEvents.ON_AUTH_FAILURE,
+  OpenfortEvents.ON_LOGOUT,
+  OpenfortEvents.ON_SWITCH_ACCOUNT,
+  OpenfortEvents.ON_EMBEDDED_WALLET_CREATED,
+  OpenfortEvents.ON_EMBEDDED_WALLET_RECOVERED,
+];
+
+/**
+ * Subscribes to transitions of the {@link EmbeddedState} of an {@link OpenfortClient}.
+ *
+ * The listener only fires when the state actually changes. The state is re-read as soon as the SDK
+ * emits an authentication or wallet event, and otherwise polled with an interval that backs off while
+ * the state is stable. Polling pauses while the document is hidden and resumes when it becomes visible.
+ *
+ * @param client - Openfort client whose embedded state should be observed.
+ * @param listener - Callback invoked with the new and the previous state on every transition.
+ * @param options - Optional polling configuration.
+ * @returns A handle to force a refresh or to stop the subscription.
+ *
+ * @example
+ * ```ts
+ * const subscription = subscribeToEmbeddedState(client, (state, previous) => {
+ *   console.log('Embedded state changed', previous, '->', state);
+ * });
+ *
+ * // Later, e.g. when unmounting
+ * subscription.unsubscribe();
+ * ```
+ */
+export function subscribeToEmbeddedState(
+  client: OpenfortClient,
+  listener: EmbeddedStateListener,
+  {
+    minInterval = 300,
+    maxInterval = 5000,
+    backoffFactor = 2,
+    onError,
+  }: EmbeddedStateSubscriptionOptions = {}
+): EmbeddedStateSubscription {
+  let state: EmbeddedState | null = null;
+  let interval = minInterval;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: Promise<void> | null = null;
+  let active = true;
+
+  const isHidden = () => typeof document !== 'undefined' && document.hidden;
+
+  const backOff = () => {
+    interval = Math.min(interval * backoffFactor, maxInterval);
+  };
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const read = async () => {
+    try {
+      const next = await client.embeddedWallet.getEmbeddedState();
+      if (!active) return;
+
+      if (next === state) {
+        backOff();
+        return;
+      }
+
+      const previous = state;
+      state = next;
+      interval = minInterval;
+      listener(next, previous);
+    } catch (error) {
+      backOff();
+      onError?.(error);
+    }
+  };
+
+  // Concurrent callers share the same in-flight read
+  const check = () => {
+    if (!pending) pending = read().finally(() => { pending = null; });
+    return pending;
+  };
+
+  const schedule = () => {
+    clearTimer();
+    if (!active || isHidden()) return;
+    timer = setTimeout(poll, interval);
+  };
+
+  async function poll() {
+    await check();
+    schedule();
+  }
+
+  const refresh = async () => {
+    if (!active) return;
+    clearTimer();
+    interval = minInterval;
+    await check();
+    schedule();
+  };
+
+  const onVisibilityChange = () => {
+    if (isHidden()) clearTimer();
+    else refresh();
+  };
+
+  const onTransitionEvent = () => {
+    refresh();
+  };
+
+  transitionEvents.forEach((event) => client.eventEmitter.on(event, onTransitionEvent));
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', onVisibilityChange);
+  }
+
+  refresh();
+
+  return {
+    refresh,
+    unsubscribe: () => {
+      active = false;
+      clearTimer();
+      transitionEvents.forEach((event) => client.eventEmitter.off(event, onTransitionEvent));
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+      }
+    },
+  };
+}
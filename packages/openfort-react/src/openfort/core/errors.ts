@@ -0,0 +1,111 @@
+import {
+  MissingRecoveryPasswordError,
+  NotConfiguredError,
+  OpenfortErrorType as SDKErrorType,
+  OTPRequiredError,
+  WrongRecoveryPasswordError,
+} from '@openfort/openfort-js';
+import { getErrorStatus, isRetryableError } from './retry';
+
+/**
+ * Stable, machine-readable reason of an `OpenfortError`, safe to branch on in the UI.
+ */
+export enum OpenfortErrorCode {
+  INVALID_CREDENTIALS = "INVALID_CREDENTIALS",
+  EMAIL_NOT_VERIFIED = "EMAIL_NOT_VERIFIED",
+  EMAIL_ALREADY_IN_USE = "EMAIL_ALREADY_IN_USE",
+  NOT_AUTHENTICATED = "NOT_AUTHENTICATED",
+  SESSION_EXPIRED = "SESSION_EXPIRED",
+  NOT_AUTHORIZED = "NOT_AUTHORIZED",
+  OTP_REQUIRED = "OTP_REQUIRED",
+  LAST_SIGN_IN_METHOD = "LAST_SIGN_IN_METHOD",
+
+  WRONG_RECOVERY_PASSWORD = "WRONG_RECOVERY_PASSWORD",
+  WRONG_RECOVERY_PASSKEY = "WRONG_RECOVERY_PASSKEY",
+  MISSING_RECOVERY_PASSWORD = "MISSING_RECOVERY_PASSWORD",
+  WALLET_NOT_CONFIGURED = "WALLET_NOT_CONFIGURED",
+  WALLET_NOT_FOUND = "WALLET_NOT_FOUND",
+  WALLET_ALREADY_LINKED = "WALLET_ALREADY_LINKED",
+  INVALID_SIGNATURE = "INVALID_SIGNATURE",
+  USER_REJECTED = "USER_REJECTED",
+
+  RATE_LIMITED = "RATE_LIMITED",
+  NETWORK = "NETWORK",
+  SERVER_ERROR = "SERVER_ERROR",
+  INVALID_INPUT = "INVALID_INPUT",
+  CONFIGURATION_ERROR = "CONFIGURATION_ERROR",
+  UNKNOWN = "UNKNOWN",
+}
+
+const retryableCodes = [OpenfortErrorCode.RATE_LIMITED, OpenfortErrorCode.NETWORK, OpenfortErrorCode.SERVER_ERROR];
+
+// openfort-js wraps API errors in its own error and drops the HTTP status, only the message of the backend
+// is left to tell them apart
+const messageCodes: [RegExp, OpenfortErrorCode][] = [
+  [/wrong recovery passkey/i, OpenfortErrorCode.WRONG_RECOVERY_PASSKEY],
+  [/too many requests|rate limit/i, OpenfortErrorCode.RATE_LIMITED],
+  [/not verified|verify your email/i, OpenfortErrorCode.EMAIL_NOT_VERIFIED],
+  [/invalid (email or password|credentials|password)|wrong password/i, OpenfortErrorCode.INVALID_CREDENTIALS],
+  [/email.*already (exists|in use|registered)/i, OpenfortErrorCode.EMAIL_ALREADY_IN_USE],
+  [/(wallet|address).*already (linked|exists|in use)/i, OpenfortErrorCode.WALLET_ALREADY_LINKED],
+  [/user rejected|user denied/i, OpenfortErrorCode.USER_REJECTED],
+];
+
+const sdkTypeCodes: Partial<Record<SDKErrorType, OpenfortErrorCode>> = {
+  [SDKErrorType.NOT_LOGGED_IN_ERROR]: OpenfortErrorCode.NOT_AUTHENTICATED,
+  [SDKErrorType.REFRESH_TOKEN_ERROR]: OpenfortErrorCode.SESSION_EXPIRED,
+  [SDKErrorType.USER_NOT_AUTHORIZED_ON_ECOSYSTEM]: OpenfortErrorCode.NOT_AUTHORIZED,
+  [SDKErrorType.INVALID_CONFIGURATION]: OpenfortErrorCode.CONFIGURATION_ERROR,
+};
+
+const statusCodes: Record<number, OpenfortErrorCode> = {
+  401: OpenfortErrorCode.NOT_AUTHENTICATED,
+  403: OpenfortErrorCode.NOT_AUTHORIZED,
+  408: OpenfortErrorCode.NETWORK,
+  429: OpenfortErrorCode.RATE_LIMITED,
+};
+
+const isErrorCode = (value: unknown): value is OpenfortErrorCode =>
+  Object.values(OpenfortErrorCode).includes(value as OpenfortErrorCode);
+
+/**
+ * Classifies an error thrown by openfort-js, axios, `fetch` or a wallet into an {@link OpenfortErrorCode}.
+ *
+ * @param error - Error to classify, errors that already carry a code keep it.
+ * @returns The code, or `undefined` when the error cannot be classified.
+ */
+export function getOpenfortErrorCode(error: unknown): OpenfortErrorCode | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const { code, type } = error as { code?: unknown; type?: unknown };
+  if (isErrorCode(code)) return code;
+
+  if (error instanceof WrongRecoveryPasswordError) return OpenfortErrorCode.WRONG_RECOVERY_PASSWORD;
+  if (error instanceof MissingRecoveryPasswordError) return OpenfortErrorCode.MISSING_RECOVERY_PASSWORD;
+  if (error instanceof NotConfiguredError) return OpenfortErrorCode.WALLET_NOT_CONFIGURED;
+  if (error instanceof OTPRequiredError) return OpenfortErrorCode.OTP_REQUIRED;
+
+  // EIP-1193 user rejection
+  if (code === 4001) return OpenfortErrorCode.USER_REJECTED;
+
+  const message = error instanceof Error ? error.message : '';
+  const fromMessage = messageCodes.find(([pattern]) => pattern.test(message));
+  if (fromMessage) return fromMessage[1];
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    if (statusCodes[status]) return statusCodes[status];
+    if (status >= 500) return OpenfortErrorCode.SERVER_ERROR;
+  } else if (isRetryableError(error)) {
+    return OpenfortErrorCode.NETWORK;
+  }
+
+  if (typeof type === 'string') return sdkTypeCodes[type as SDKErrorType];
+  return undefined;
+}
+
+/**
+ * Returns whether an error with the given code is worth retrying as is.
+ */
+export function isRetryableErrorCode(code: OpenfortErrorCode): boolean {
+  return retryableCodes.includes(code);
+}
@@ -0,0 +1,92 @@
+import type { AuthPlayerResponse, EmbeddedAccount, RecoveryMethod } from '@openfort/openfort-js';
+import { createLogger, type Logger } from './logger';
+
+/**
+ * Payload of every lifecycle event emitted by the {@link OpenfortProvider}, keyed by event name.
+ */
+export type OpenfortEventMap = {
+  /** A user signed in, or the session of a previously signed in user was restored. */
+  'auth:login': { user: AuthPlayerResponse };
+  /** The signed in user signed out or their session expired. */
+  'auth:logout': { user: AuthPlayerResponse };
+  /** The access token was refreshed, `expiresAt` is a timestamp in milliseconds. */
+  'auth:tokenRefreshed': { accessToken: string; expiresAt: number | null };
+  /** The signed in user was fetched again, e.g. after linking a new account. */
+  'user:updated': { user: AuthPlayerResponse };
+  /** An embedded wallet was created for the signed in user. */
+  'wallet:created': { account: EmbeddedAccount };
+  /** An embedded wallet was recovered on this device. */
+  'wallet:recovered': { account: EmbeddedAccount };
+  /** The recovery method of the active embedded wallet was changed. */
+  'recovery:changed': { previousMethod: RecoveryMethod; method: RecoveryMethod; account: EmbeddedAccount };
+  /** The Openfort modal was opened. */
+  'modal:opened': { route: string };
+  /** The Openfort modal navigated to another route. */
+  'modal:routeChanged': { route: string; previousRoute: string };
+  /** The active chain changed. */
+  'chain:switched': { chainId: number; previousChainId: number };
+};
+
+export type OpenfortEventName = keyof OpenfortEventMap;
+
+export type OpenfortEventListener<E extends OpenfortEventName> = (payload: OpenfortEventMap[E]) => void;
+
+export type OpenfortEventBus = {
+  /** Registers a listener and returns a function that removes it. */
+  on: <E extends OpenfortEventName>(event: E, listener: OpenfortEventListener<E>) => () => void;
+  off: <E extends OpenfortEventName>(event: E, listener: OpenfortEventListener<E>) => void;
+  emit: <E extends OpenfortEventName>(event: E, payload: OpenfortEventMap[E]) => void;
+};
+
+export type OpenfortEventBusOptions = {
+  /**
+   * Reports the errors thrown by listeners.
+   *
+   * @defaultValue `error` of a logger created with {@link createLogger}
+   */
+  logError?: Logger['error'];
+};
+
+/**
+ * Creates a typed event bus for the Openfort lifecycle events.
+ *
+ * A listener that throws does not prevent the remaining listeners from being called, its error is logged instead.
+ *
+ * @param options - Optional logger for the errors thrown by listeners.
+ * @returns A bus to subscribe to and emit {@link OpenfortEventMap} events.
+ *
+ * @example
+ * ```ts
+ * const events = createOpenfortEventBus();
+ * const unsubscribe = events.on('auth:login', ({ user }) => console.log('Signed in', user.id));
+ *
+ * events.emit('auth:login', { user });
+ * unsubscribe();
+ * ```
+ */
+export function createOpenfortEventBus({ logError = createLogger().error }: OpenfortEventBusOptions = {}): OpenfortEventBus {
+  const listeners = new Map<OpenfortEventName, Set<(payload: unknown) => void>>();
+
+  const off: OpenfortEventBus['off'] = (event, listener) => {
+    listeners.get(event)?.delete(listener as (payload: unknown) => void);
+  };
+
+  const on: OpenfortEventBus['on'] = (event, listener) => {
+    if (!listeners.has(event)) listeners.set(event, new Set());
+    listeners.get(event)!.add(listener as (payload: unknown) => void);
+    return () => off(event, listener);
+  };
+
+  const emit: OpenfortEventBus['emit'] = (event, payload) => {
+    // Copy so that listeners can unsubscribe while the event is dispatched
+    [...(listeners.get(event) ?? [])].forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (error) {
+        logError(`Error in "${event}" event listener`, error);
+      }
+    });
+  };
+
+  return { on, off, emit };
+}
@@ -1,2 +1,49 @@
 // Client creation and configuration
 export { createOpenfortClient, getDefaultClient, setDefaultClient } from './client';
+
+// Logging
+export { consoleSink, createLogger, redact } from './logger';
+export type { LogEntry, Logger, LoggerOptions, LoggerSink, LogLevel, LogNamespace } from './logger';
+
+// Storage
+export { createIndexedDBStorage, createLocalStorage, createMemoryStorage, createSessionStorage, isLocalStorage, toWagmiStorage } from './storage';
+export type { IndexedDBStorageOptions, OpenfortStorage } from './storage';
+
+// Errors
+export { getOpenfortErrorCode, isRetryableErrorCode, OpenfortErrorCode } from './errors';
+
+// Retries
+export { getErrorStatus, getRetryDelay, isRetryableError, shouldRetry, withRetry } from './retry';
+export type { RetryPolicy } from './retry';
+
+// Access token
+export { decodeAccessTokenExpiry, scheduleAccessTokenRefresh } from './accessToken';
+export type { AccessTokenRefreshOptions, AccessTokenRefreshScheduler } from './accessToken';
+
+// Embedded state
+export { subscribeToEmbeddedState } from './embeddedState';
+export type { EmbeddedStateListener, EmbeddedStateSubscription, EmbeddedStateSubscriptionOptions } from './embeddedState';
+
+// Analytics
+export { createAnalyticsTracker, getAnalyticsErrorType } from './analytics';
+export type { AnalyticsEvent, AnalyticsEventHandler, AnalyticsEventName, AnalyticsEventProperties, AnalyticsTracker } from './analytics';
+
+// Lifecycle events
+export { createOpenfortEventBus } from './events';
+export type { OpenfortEventBus, OpenfortEventBusOptions, OpenfortEventListener, OpenfortEventMap, OpenfortEventName } from './events';
+
+// OAuth popup
+export { completeOAuthPopup, OAuthPopupClosedError, oauthPopupParam, openOAuthPopup, waitForOAuthPopup } from './oauthPopup';
+export type { OAuthPopupCredentials, WaitForOAuthPopupOptions } from './oauthPopup';
+
+// Third party auth
+export { auth0AuthAdapter, firebaseAuthAdapter, isThirdPartyAuthAdapter, supabaseAuthAdapter } from './thirdPartyAuth';
+export type { Auth0ClientLike, FirebaseAuthLike, SupabaseClientLike, ThirdPartyAuthAdapter } from './thirdPartyAuth';
+
+// Cross-tab synchronisation
+export { createTabSync } from './tabSync';
+export type { TabSync, TabSyncMessage, TabSyncOptions } from './tabSync';
+
+// Server-side rendering
+export { cookieToOpenfortInitialState, openfortInitialStateCookieName, writeOpenfortInitialStateCookie } from './initialState';
+export type { OpenfortInitialState } from './initialState';
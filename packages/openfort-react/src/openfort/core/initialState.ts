@@ -0,0 +1,85 @@
+import type { AuthPlayerResponse, EmbeddedState } from '@openfort/openfort-js';
+import type { Hex } from 'viem';
+
+/**
+ * Snapshot of the Openfort session used to render the known user on the server.
+ *
+ * The snapshot is written to a cookie by {@link OpenfortProvider} when `ssr` is enabled and can be
+ * read back on the server with {@link cookieToOpenfortInitialState}. The user is shown until the client
+ * has fetched it again.
+ */
+export type OpenfortInitialState = {
+  /** Whether a user is signed in and whether their embedded wallet is ready. */
+  embeddedState: EmbeddedState;
+  /** The signed in user. */
+  user?: AuthPlayerResponse;
+  /** Address of the connected wallet. */
+  address?: Hex;
+};
+
+/** Name of the cookie holding the serialised {@link OpenfortInitialState}. */
+export const openfortInitialStateCookieName = 'openfort.snapshot';
+
+const maxAge = 60 * 60 * 24 * 7; // One week, the session is re-validated on the client anyway
+
+const isInitialState = (value: unknown): value is OpenfortInitialState => {
+  if (!value || typeof value !== 'object') return false;
+  const state = value as Partial<OpenfortInitialState>;
+  return typeof state.embeddedState === 'number'
+    && (state.user === undefined || (!!state.user && typeof state.user === 'object' && typeof state.user.id === 'string'))
+    && (state.address === undefined || typeof state.address === 'string');
+};
+
+/**
+ * Reads the {@link OpenfortInitialState} from a `Cookie` header.
+ *
+ * Safe to call on the server, it does not touch `window` or `document`.
+ *
+ * @param cookie - Raw cookie header, e.g. `headers().get('cookie')` in Next.js.
+ * @returns The parsed snapshot, or `undefined` when the cookie is missing or invalid.
+ *
+ * @example
+ * ```ts
+ * import { headers } from 'next/headers';
+ * import { cookieToOpenfortInitialState } from '@openfort/react/server';
+ *
+ * const initialState = cookieToOpenfortInitialState(headers().get('cookie'));
+ * ```
+ */
+export function cookieToOpenfortInitialState(cookie?: string | null): OpenfortInitialState | undefined {
+  if (!cookie) return undefined;
+
+  const entry = cookie
+    .split(';')
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${openfortInitialStateCookieName}=`));
+  if (!entry) return undefined;
+
+  try {
+    const value = JSON.parse(decodeURIComponent(entry.substring(openfortInitialStateCookieName.length + 1)));
+    return isInitialState(value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Persists the {@link OpenfortInitialState} in a cookie so the next server render can use it.
+ *
+ * @param state - Snapshot to persist, or `null` to remove the cookie.
+ */
+export function writeOpenfortInitialStateCookie(state: OpenfortInitialState | null): void {
+  if (typeof document === 'undefined') return;
+
+  const attributes = `path=/; SameSite=Lax${window.location.protocol === 'https:' ? '; Secure' : ''}`;
+
+  if (!state) {
+    document.cookie = `${openfortInitialStateCookieName}=; max-age=0; ${attributes}`;
+    return;
+  }
+
+  // Only the known fields are written, so a snapshot built from a larger object does not leak into the cookie
+  const { embeddedState, user, address } = state;
+  const value = encodeURIComponent(JSON.stringify({ embeddedState, user, address }));
+  document.cookie = `${openfortInitialStateCookieName}=${value}; max-age=${maxAge}; ${attributes}`;
+}
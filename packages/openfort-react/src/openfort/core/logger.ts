@@ -0,0 +1,136 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogNamespace = 'core' | 'auth' | 'wallets' | 'modal';
+
+export type LogEntry = {
+  level: LogLevel;
+  namespace: LogNamespace;
+  message: string;
+  /** Additional values passed to the logger, with secrets redacted. */
+  data: unknown[];
+  timestamp: number;
+};
+
+/** Receives every log entry at or above the configured level. */
+export type LoggerSink = (entry: LogEntry) => void;
+
+export type Logger = {
+  debug: (message: string, ...data: unknown[]) => void;
+  info: (message: string, ...data: unknown[]) => void;
+  warn: (message: string, ...data: unknown[]) => void;
+  error: (message: string, ...data: unknown[]) => void;
+  /** Returns a logger with the same sink and level for another namespace. */
+  child: (namespace: LogNamespace) => Logger;
+};
+
+export type LoggerOptions = {
+  /**
+   * Where log entries are written.
+   *
+   * @defaultValue {@link consoleSink}
+   */
+  sink?: LoggerSink;
+  /**
+   * Minimum level of the entries that are written.
+   *
+   * @defaultValue 'warn'
+   */
+  level?: LogLevel;
+  /** @defaultValue 'core' */
+  namespace?: LogNamespace;
+};
+
+const levels: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const redacted = '[REDACTED]';
+const secretKeys = /token|password|secret|session|authorization|private.?key|signature|otp|code_?verifier/i;
+const jwtPattern = /^[\w-]{8,}\.[\w-]{8,}\.[\w-]+$/;
+
+/**
+ * Replaces secrets in a value with `[REDACTED]`.
+ *
+ * Properties whose name looks like a token, password, session or key are redacted, as well as any
+ * string that looks like a JWT. Nested objects and arrays are redacted recursively.
+ *
+ * @param value - Value to redact, it is not modified.
+ * @returns A copy of the value without secrets.
+ */
+export function redact(value: unknown): unknown {
+  return redactValue(value, new WeakSet());
+}
+
+function redactValue(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') return jwtPattern.test(value) ? redacted : value;
+  if (!value || typeof value !== 'object') return value;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, seen));
+
+  const redactEntries = (source: object) => Object.fromEntries(
+    Object.entries(source).map(([key, item]) => [key, secretKeys.test(key) ? redacted : redactValue(item, seen)])
+  );
+
+  // Errors keep their prototype so that sinks can still tell them apart, their properties are
+  // redacted too since e.g. axios errors carry the request headers
+  if (value instanceof Error) {
+    const copy = Object.create(Object.getPrototypeOf(value));
+    return Object.assign(copy, redactEntries(value), { name: value.name, message: value.message, stack: value.stack });
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype) return value;
+
+  return redactEntries(value);
+}
+
+/**
+ * Writes log entries to the browser console, prefixed with their namespace.
+ */
+export const consoleSink: LoggerSink = ({ level, namespace, message, data }) => {
+  console[level === 'debug' ? 'log' : level](`[openfort:${namespace}] ${message}`, ...data);
+};
+
+/**
+ * Creates a leveled {@link Logger} that redacts secrets before handing entries to its sink.
+ *
+ * @param options - Sink, minimum level and namespace of the logger.
+ * @returns A logger whose methods can be passed around without binding.
+ *
+ * @example
+ * ```ts
+ * const logger = createLogger({
+ *   level: 'info',
+ *   sink: (entry) => datadogLogs.logger.log(entry.message, { ...entry }, entry.level),
+ * });
+ *
+ * logger.child('auth').info('Signed in', { accessToken }); // accessToken is redacted
+ * ```
+ */
+export function createLogger({ sink = consoleSink, level = 'warn', namespace = 'core' }: LoggerOptions = {}): Logger {
+  const write = (entryLevel: LogLevel) => (message: string, ...data: unknown[]) => {
+    if (levels[entryLevel] < levels[level]) return;
+    try {
+      sink({
+        level: entryLevel,
+        namespace,
+        message,
+        data: data.map((item) => redact(item)),
+        timestamp: Date.now(),
+      });
+    } catch {
+      // A failing sink must never break the flow that is being logged
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+    child: (childNamespace) => createLogger({ sink, level, namespace: childNamespace }),
+  };
+}
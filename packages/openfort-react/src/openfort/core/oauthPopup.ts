@@ -0,0 +1,162 @@
+/** Query parameter marking the callback URL of an OAuth popup. */
+export const oauthPopupParam = 'openfortOAuthPopup';
+
+const messageType = 'openfort:oauth';
+const channelName = 'openfort-oauth';
+
+export type OAuthPopupCredentials = {
+  player: string;
+  accessToken: string;
+  refreshToken: string;
+};
+
+type OAuthPopupMessage =
+  | { type: typeof messageType; credentials: OAuthPopupCredentials }
+  | { type: typeof messageType; error: string };
+
+export type WaitForOAuthPopupOptions = {
+  /**
+   * Milliseconds after which the sign in is abandoned.
+   *
+   * @defaultValue 300000
+   */
+  timeout?: number;
+};
+
+/** Thrown when the user closes the OAuth popup before signing in. */
+export class OAuthPopupClosedError extends Error {
+  constructor() {
+    super('The OAuth popup was closed before the sign in completed');
+    this.name = 'OAuthPopupClosedError';
+  }
+}
+
+const isOAuthPopupMessage = (data: unknown): data is OAuthPopupMessage =>
+  !!data && typeof data === 'object' && (data as { type?: unknown }).type === messageType;
+
+// The Openfort backend appends its parameters with `?` even when the callback URL already has a query (OF-1013)
+const readCallbackUrl = () => new URL(window.location.href.replaceAll('?', '&').replace('&', '?'));
+
+/**
+ * Opens an empty popup centred on the current window, the OAuth URL is loaded into it once known.
+ *
+ * Must be called synchronously from a click handler, before any `await`, or browsers block the popup.
+ *
+ * @returns The popup, or `null` when it was blocked.
+ */
+export function openOAuthPopup({ width = 500, height = 640 }: { width?: number; height?: number } = {}): Window | null {
+  if (typeof window === 'undefined') return null;
+
+  const left = window.screenX + Math.max(0, (window.outerWidth - width) / 2);
+  const top = window.screenY + Math.max(0, (window.outerHeight - height) / 2);
+
+  try {
+    return window.open('', 'openfort-oauth', `popup=yes,width=${width},height=${height},left=${left},top=${top}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Waits for the callback page loaded in an OAuth popup to send the credentials, see {@link completeOAuthPopup}.
+ *
+ * Credentials are received through `postMessage` from the same origin, with a `BroadcastChannel` fallback for
+ * providers whose opener policy cuts the link between the popup and the page.
+ *
+ * @param popup - Popup returned by {@link openOAuthPopup}.
+ * @param options - Timeout of the sign in.
+ * @returns The credentials to pass to `storeCredentials`.
+ * @throws {OAuthPopupClosedError} If the user closes the popup.
+ */
+export function waitForOAuthPopup(popup: Window, { timeout = 300_000 }: WaitForOAuthPopupOptions = {}): Promise<OAuthPopupCredentials> {
+  return new Promise((resolve, reject) => {
+    const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(channelName);
+    let closedCheck: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      window.removeEventListener('message', onWindowMessage);
+      window.removeEventListener('focus', onFocus);
+      channel?.close();
+      clearTimeout(timer);
+      clearTimeout(closedCheck);
+    };
+
+    const onMessage = (data: unknown) => {
+      if (!isOAuthPopupMessage(data)) return;
+      cleanup();
+      if ('error' in data) reject(new Error(data.error));
+      else resolve(data.credentials);
+    };
+
+    const onWindowMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin) return;
+      onMessage(event.data);
+    };
+
+    // `popup.closed` is also true while a provider with a strict opener policy is displayed, so it is only
+    // checked once the page gets the focus back, which happens when the popup is closed
+    const onFocus = () => {
+      clearTimeout(closedCheck);
+      closedCheck = setTimeout(() => {
+        if (!popup.closed) return;
+        cleanup();
+        reject(new OAuthPopupClosedError());
+      }, 1000);
+    };
+
+    const timer = setTimeout(() => {
+      cleanup();
+      popup.close();
+      reject(new Error('The OAuth sign in timed out'));
+    }, timeout);
+
+    window.addEventListener('message', onWindowMessage);
+    window.addEventListener('focus', onFocus);
+    if (channel) channel.onmessage = (event) => onMessage(event.data);
+  });
+}
+
+let completed = false;
+
+/**
+ * Sends the credentials of an OAuth callback to the page that opened the popup, then closes the popup.
+ *
+ * Call it on the page the popup is redirected to. `useAuthCallback` and the Openfort modal call it already, so it
+ * is only needed on callback pages that render neither.
+ *
+ * @returns Whether the current page is an OAuth popup callback, in which case nothing else should run.
+ *
+ * @example
+ * ```ts
+ * // auth/callback.ts
+ * if (!completeOAuthPopup()) {
+ *   window.location.replace('/');
+ * }
+ * ```
+ */
+export function completeOAuthPopup(): boolean {
+  if (typeof window === 'undefined') return false;
+
+  const url = readCallbackUrl();
+  if (!url.searchParams.has(oauthPopupParam)) return false;
+  if (completed) return true;
+  completed = true;
+
+  const player = url.searchParams.get('player_id');
+  const accessToken = url.searchParams.get('access_token');
+  const refreshToken = url.searchParams.get('refresh_token');
+
+  const message: OAuthPopupMessage = player && accessToken && refreshToken
+    ? { type: messageType, credentials: { player, accessToken, refreshToken } }
+    : { type: messageType, error: url.searchParams.get('error') ?? 'Missing player id or access token or refresh token' };
+
+  window.opener?.postMessage(message, window.location.origin);
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.postMessage(message);
+    channel.close();
+  }
+
+  window.close();
+  return true;
+}
@@ -0,0 +1,145 @@
+/**
+ * Controls how failed requests to Openfort are retried.
+ *
+ * Delays grow exponentially from `baseDelay` by `factor` on every attempt, are capped at `maxDelay`
+ * and randomised by `jitter` so that many clients do not retry at the same time.
+ */
+export type RetryPolicy = {
+  /**
+   * Number of retries after the first attempt.
+   *
+   * @defaultValue 5
+   */
+  retries?: number;
+  /**
+   * Delay before the first retry, in milliseconds.
+   *
+   * @defaultValue 250
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound for the delay between retries, in milliseconds.
+   *
+   * @defaultValue 5000
+   */
+  maxDelay?: number;
+  /**
+   * Factor applied to the delay after every retry.
+   *
+   * @defaultValue 2
+   */
+  factor?: number;
+  /**
+   * Fraction of the delay that is randomised, between 0 and 1.
+   *
+   * @defaultValue 0.5
+   */
+  jitter?: number;
+  /** Overrides which errors are retried, defaults to {@link isRetryableError}. */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+};
+
+type ErrorWithStatus = {
+  status?: number;
+  httpStatus?: number;
+  code?: string;
+  response?: { status?: number };
+  data?: { status?: number };
+};
+
+const networkErrorCodes = ['ERR_NETWORK', 'ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET'];
+
+// Requests that never received a response, thrown by axios or `fetch`
+const isNetworkError = (error: unknown) => {
+  if (error instanceof TypeError) return true;
+  if (!(error instanceof Error)) return false;
+  const { code } = error as ErrorWithStatus;
+  return (!!code && networkErrorCodes.includes(code)) || /network|timeout/i.test(error.message);
+};
+
+/**
+ * Reads the HTTP status code of an error thrown by the Openfort SDK, axios or `fetch` helpers.
+ *
+ * @returns The status code, or `undefined` when the request did not receive a response.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+  const { status, httpStatus, response, data } = error as ErrorWithStatus;
+  const value = httpStatus ?? response?.status ?? data?.status ?? status;
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Classifies an error as transient.
+ *
+ * Errors without a response (network failures, timeouts), `408`, `429` and `5xx` responses are retryable.
+ * Every other response, including authentication errors such as `401` and `404`, is fatal.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status === undefined) return isNetworkError(error);
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Computes the delay before a retry.
+ *
+ * @param attempt - Number of the retry, starting at 1.
+ * @param policy - Retry policy, defaults are applied for missing values.
+ * @returns The delay in milliseconds.
+ */
+export function getRetryDelay(attempt: number, {
+  baseDelay = 250,
+  maxDelay = 5000,
+  factor = 2,
+  jitter = 0.5,
+}: RetryPolicy = {}): number {
+  const delay = Math.min(baseDelay * factor ** (attempt - 1), maxDelay);
+  return delay * (1 - jitter * Math.random());
+}
+
+/**
+ * Returns whether a failed attempt should be retried according to the policy.
+ *
+ * @param error - Error thrown by the failed attempt.
+ * @param attempt - Number of the retry that would follow, starting at 1.
+ * @param policy - Retry policy, defaults are applied for missing values.
+ */
+export function shouldRetry(error: unknown, attempt: number, { retries = 5, shouldRetry: isRetryable }: RetryPolicy = {}): boolean {
+  if (attempt > retries) return false;
+  return (isRetryable ?? isRetryableError)(error, attempt);
+}
+
+/**
+ * Runs an asynchronous function and retries it according to a {@link RetryPolicy}.
+ *
+ * @param fn - Function to run, receives the number of the current attempt starting at 0.
+ * @param policy - Retry policy, defaults are applied for missing values.
+ * @param onRetry - Called before waiting for every retry.
+ * @returns The result of the first successful attempt.
+ * @throws The error of the last attempt when it is fatal or no retries are left.
+ *
+ * @example
+ * ```ts
+ * const user = await withRetry(() => client.user.get(), { retries: 3 }, (error, attempt) => {
+ *   console.warn(`Retrying (${attempt})`, error);
+ * });
+ * ```
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = {},
+  onRetry?: (error: unknown, attempt: number, delay: number) => void
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (!shouldRetry(error, attempt + 1, policy)) throw error;
+
+      const delay = getRetryDelay(attempt + 1, policy);
+      onRetry?.(error, attempt + 1, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
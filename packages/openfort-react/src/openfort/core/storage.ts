@@ -0,0 +1,221 @@
+import { createStorage, type Storage as WagmiStorage } from 'wagmi';
+import { createLogger, type Logger } from './logger';
+
+/**
+ * Key-value storage used for the Openfort session and the library's own keys.
+ *
+ * Compatible with the `storage` override of the Openfort SDK. Writes may complete asynchronously,
+ * but every adapter guarantees that a `get` observes the writes issued before it.
+ */
+export type OpenfortStorage = {
+  get: (key: string) => Promise<string | null>;
+  save: (key: string, value: string) => void;
+  remove: (key: string) => void;
+  /** Removes the session keys written by the Openfort SDK. */
+  flush: () => void;
+};
+
+// Every key written by the Openfort SDK starts with this prefix
+const isSessionKey = (key: string) => key.startsWith('openfort.');
+
+// Adapters created by `createLocalStorage`
+const localStorages = new WeakSet<OpenfortStorage>();
+
+/**
+ * Creates a storage that only lives in memory, the session ends when the page is closed or reloaded.
+ *
+ * @returns An {@link OpenfortStorage} backed by a `Map`.
+ *
+ * @example
+ * ```tsx
+ * <OpenfortProvider publishableKey="pk_..." storage={createMemoryStorage()}>
+ * ```
+ */
+export function createMemoryStorage(): OpenfortStorage {
+  const values = new Map<string, string>();
+
+  return {
+    get: async (key) => values.get(key) ?? null,
+    save: (key, value) => {
+      values.set(key, value);
+    },
+    remove: (key) => {
+      values.delete(key);
+    },
+    flush: () => {
+      [...values.keys()].filter(isSessionKey).forEach((key) => values.delete(key));
+    },
+  };
+}
+
+const createWebStorage = (getStorage: () => globalThis.Storage): OpenfortStorage => {
+  // Web storage is unavailable during server rendering and can throw, e.g. in private mode
+  const withStorage = <T>(fn: (storage: globalThis.Storage) => T, fallback: T): T => {
+    try {
+      return typeof window === 'undefined' ? fallback : fn(getStorage());
+    } catch {
+      return fallback;
+    }
+  };
+
+  return {
+    get: async (key) => withStorage((storage) => storage.getItem(key), null),
+    save: (key, value) => withStorage((storage) => storage.setItem(key, value), undefined),
+    remove: (key) => withStorage((storage) => storage.removeItem(key), undefined),
+    flush: () => withStorage((storage) => {
+      Object.keys(storage).filter(isSessionKey).forEach((key) => storage.removeItem(key));
+    }, undefined),
+  };
+};
+
+/**
+ * Creates a storage backed by `localStorage`, the session is shared by every tab and survives restarts.
+ *
+ * This is the default storage.
+ *
+ * @returns An {@link OpenfortStorage} backed by `window.localStorage`.
+ */
+export function createLocalStorage(): OpenfortStorage {
+  const storage = createWebStorage(() => window.localStorage);
+  localStorages.add(storage);
+  return storage;
+}
+
+/**
+ * Whether the storage was created with {@link createLocalStorage}.
+ *
+ * @param storage - Storage adapter to check.
+ * @returns `true` when the adapter writes to `localStorage`.
+ */
+export function isLocalStorage(storage: OpenfortStorage): boolean {
+  return localStorages.has(storage);
+}
+
+/**
+ * Creates a storage backed by `sessionStorage`, the session ends when the tab is closed.
+ *
+ * @returns An {@link OpenfortStorage} backed by `window.sessionStorage`.
+ *
+ * @example
+ * ```tsx
+ * <OpenfortProvider publishableKey="pk_..." storage={createSessionStorage()}>
+ * ```
+ */
+export function createSessionStorage(): OpenfortStorage {
+  return createWebStorage(() => window.sessionStorage);
+}
+
+export type IndexedDBStorageOptions = {
+  /** @defaultValue 'openfort' */
+  databaseName?: string;
+  /** @defaultValue 'keyval' */
+  storeName?: string;
+  /**
+   * Reports the writes that failed, since `save` and `remove` do not return them.
+   *
+   * @defaultValue `error` of a logger created with {@link createLogger}
+   */
+  logError?: Logger['error'];
+};
+
+/**
+ * Creates a storage backed by IndexedDB, e.g. for PWAs where `localStorage` may be evicted.
+ *
+ * The database is opened lazily on first use. Operations are queued in call order, so a `get`
+ * always observes the `save` and `remove` calls issued before it.
+ *
+ * @param options - Optional database and object store names, and a logger for the failed writes.
+ * @returns An asynchronous {@link OpenfortStorage} backed by IndexedDB.
+ *
+ * @example
+ * ```tsx
+ * const storage = createIndexedDBStorage({ databaseName: 'my-app' });
+ *
+ * <OpenfortProvider publishableKey="pk_..." storage={storage}>
+ * ```
+ */
+export function createIndexedDBStorage({
+  databaseName = 'openfort',
+  storeName = 'keyval',
+  logError: logErrorOption = createLogger().error,
+}: IndexedDBStorageOptions = {}): OpenfortStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  };
+
+  const run = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+    open().then((db) => new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(storeName, mode).objectStore(storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }));
+
+  const logError = (error: unknown) => logErrorOption('IndexedDB storage error', error);
+
+  return {
+    get: async (key) => {
+      if (typeof indexedDB === 'undefined') return null;
+      const value = await run<unknown>('readonly', (store) => store.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    save: (key, value) => {
+      if (typeof indexedDB === 'undefined') return;
+      run('readwrite', (store) => store.put(value, key)).catch(logError);
+    },
+    remove: (key) => {
+      if (typeof indexedDB === 'undefined') return;
+      run('readwrite', (store) => store.delete(key)).catch(logError);
+    },
+    flush: () => {
+      if (typeof indexedDB === 'undefined') return;
+      // A single transaction, so that writes issued after the flush are not removed
+      open().then((db) => {
+        const request = db.transaction(storeName, 'readwrite').objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          if (isSessionKey(String(cursor.key))) cursor.delete();
+          cursor.continue();
+        };
+        request.onerror = () => logError(request.error);
+      }).catch(logError);
+    },
+  };
+}
+
+/**
+ * Wraps an {@link OpenfortStorage} so that wagmi persists its state, such as the `recentConnectorId`,
+ * in the same place as the Openfort session.
+ *
+ * @param storage - Storage adapter also passed to the {@link OpenfortProvider}.
+ * @returns A wagmi storage to use as the `storage` of the wagmi configuration.
+ *
+ * @example
+ * ```ts
+ * const storage = createSessionStorage();
+ *
+ * const config = createConfig(getDefaultConfig({
+ *   appName: 'My app',
+ *   storage: toWagmiStorage(storage),
+ * }));
+ * ```
+ */
+export function toWagmiStorage(storage: OpenfortStorage): WagmiStorage {
+  return createStorage({
+    storage: {
+      getItem: (key) => storage.get(key),
+      setItem: (key, value) => storage.save(key, value),
+      removeItem: (key) => storage.remove(key),
+    },
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Session changes that are propagated to the other tabs of the same origin.
+ */
+export type TabSyncMessage =
+  | { type: 'login' }
+  | { type: 'logout' }
+  | { type: 'userUpdated' }
+  | { type: 'embeddedAccountsInvalidated' }
+  /** Latest user activity in a tab, as a timestamp in milliseconds, so that idle timeouts are shared. */
+  | { type: 'activity'; at: number }
+  /** The idle session was extended after its warning was shown. */
+  | { type: 'sessionExtended' };
+
+export type TabSync = {
+  /** Sends a message to every other tab. The sending tab does not receive it. */
+  post: (message: TabSyncMessage) => void;
+  /** Registers a listener for messages sent by other tabs and returns a function that removes it. */
+  subscribe: (listener: (message: TabSyncMessage) => void) => () => void;
+  /** Stops listening and releases the underlying channel. */
+  close: () => void;
+};
+
+export type TabSyncOptions = {
+  /**
+   * Falls back to `storage` events when `BroadcastChannel` is unavailable. The fallback writes to `localStorage`,
+   * so it should be disabled when the session is kept in another storage.
+   *
+   * @defaultValue true
+   */
+  storageEvents?: boolean;
+};
+
+const channelName = 'openfort.tabSync';
+
+const isTabSyncMessage = (value: unknown): value is TabSyncMessage =>
+  !!value && typeof value === 'object' && typeof (value as TabSyncMessage).type === 'string';
+
+/**
+ * Creates a channel to synchronise the Openfort session across tabs.
+ *
+ * Uses a `BroadcastChannel` when available and falls back to `storage` events otherwise.
+ * Outside of a browser, or without either of them, the returned channel is a no-op.
+ *
+ * @param options - Whether `localStorage` may be used as a fallback.
+ * @returns A handle to post and receive {@link TabSyncMessage}s.
+ *
+ * @example
+ * ```ts
+ * const tabSync = createTabSync();
+ * const unsubscribe = tabSync.subscribe((message) => {
+ *   if (message.type === 'logout') clearLocalSession();
+ * });
+ *
+ * tabSync.post({ type: 'logout' });
+ * ```
+ */
+export function createTabSync({ storageEvents = true }: TabSyncOptions = {}): TabSync {
+  const listeners = new Set<(message: TabSyncMessage) => void>();
+  const dispatch = (message: unknown) => {
+    if (!isTabSyncMessage(message)) return;
+    listeners.forEach((listener) => listener(message));
+  };
+
+  const subscribe: TabSync['subscribe'] = (listener) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  if (typeof window === 'undefined') {
+    return { post: () => { }, subscribe, close: () => listeners.clear() };
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName);
+    channel.onmessage = (event: MessageEvent) => dispatch(event.data);
+
+    return {
+      post: (message) => channel.postMessage(message),
+      subscribe,
+      close: () => {
+        listeners.clear();
+        channel.close();
+      },
+    };
+  }
+
+  if (!storageEvents) {
+    return { post: () => { }, subscribe, close: () => listeners.clear() };
+  }
+
+  // Storage events only fire in the other tabs, and only when the value changes
+  const onStorage = (event: StorageEvent) => {
+    if (event.key !== channelName || !event.newValue) return;
+    try {
+      dispatch(JSON.parse(event.newValue).message);
+    } catch {
+      // Ignore values not written by this module
+    }
+  };
+  window.addEventListener('storage', onStorage);
+
+  return {
+    post: (message) => {
+      try {
+        window.localStorage.setItem(channelName, JSON.stringify({ message, sentAt: Date.now() + Math.random() }));
+        window.localStorage.removeItem(channelName);
+      } catch {
+        // Storage can be unavailable, e.g. in private mode, the other tabs will catch up when polling
+      }
+    },
+    subscribe,
+    close: () => {
+      listeners.clear();
+      window.removeEventListener('storage', onStorage);
+    },
+  };
+}
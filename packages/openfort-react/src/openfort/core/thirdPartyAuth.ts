@@ -0,0 +1,110 @@
+import { ThirdPartyOAuthProvider, type ThirdPartyAuthConfiguration } from '@openfort/openfort-js';
+
+/**
+ * Connects an external identity provider to Openfort.
+ *
+ * An adapter is a valid `thirdPartyAuth` configuration of `OpenfortProvider`, which uses `getAccessToken` to
+ * authenticate the requests, and `useThirdPartyAuth` uses `onAuthStateChanged` to keep the Openfort session in sync.
+ */
+export type ThirdPartyAuthAdapter = ThirdPartyAuthConfiguration & {
+  /**
+   * Calls `callback` with whether a user is signed in to the identity provider, once when subscribed and then on
+   * every sign in and sign out.
+   *
+   * @returns A function that unsubscribes.
+   */
+  onAuthStateChanged: (callback: (isSignedIn: boolean) => void) => () => void;
+};
+
+/** The parts of a Firebase `Auth` instance used by {@link firebaseAuthAdapter}. */
+export type FirebaseAuthLike = {
+  currentUser: { getIdToken: (forceRefresh?: boolean) => Promise<string> } | null;
+  onIdTokenChanged: (callback: (user: unknown) => void) => () => void;
+};
+
+/** The parts of a Supabase client used by {@link supabaseAuthAdapter}. */
+export type SupabaseClientLike = {
+  auth: {
+    getSession: () => Promise<{ data: { session: { access_token: string } | null } }>;
+    onAuthStateChange: (callback: (event: string, session: unknown) => void) => {
+      data: { subscription: { unsubscribe: () => void } };
+    };
+  };
+};
+
+/** The parts of an `Auth0Client` of `@auth0/auth0-spa-js` used by {@link auth0AuthAdapter}. */
+export type Auth0ClientLike = {
+  isAuthenticated: () => Promise<boolean>;
+  getIdTokenClaims: () => Promise<{ __raw: string } | undefined>;
+};
+
+/**
+ * Creates an adapter for Firebase Authentication.
+ *
+ * @param auth - The `Auth` instance returned by `getAuth`.
+ *
+ * @example
+ * ```tsx
+ * const adapter = firebaseAuthAdapter(getAuth(app));
+ *
+ * <OpenfortProvider publishableKey="pk_..." thirdPartyAuth={adapter}>
+ * ```
+ */
+export function firebaseAuthAdapter(auth: FirebaseAuthLike): ThirdPartyAuthAdapter {
+  return {
+    provider: ThirdPartyOAuthProvider.FIREBASE,
+    getAccessToken: async () => (await auth.currentUser?.getIdToken()) ?? null,
+    onAuthStateChanged: (callback) => auth.onIdTokenChanged((user) => callback(!!user)),
+  };
+}
+
+/**
+ * Creates an adapter for Supabase Auth.
+ *
+ * @param supabase - The client returned by `createClient`.
+ */
+export function supabaseAuthAdapter(supabase: SupabaseClientLike): ThirdPartyAuthAdapter {
+  return {
+    provider: ThirdPartyOAuthProvider.SUPABASE,
+    getAccessToken: async () => (await supabase.auth.getSession()).data.session?.access_token ?? null,
+    onAuthStateChanged: (callback) => {
+      // Supabase calls back with `INITIAL_SESSION` when subscribed
+      const { data } = supabase.auth.onAuthStateChange((_event, session) => callback(!!session));
+      return () => data.subscription.unsubscribe();
+    },
+  };
+}
+
+/**
+ * Creates an adapter for Auth0, which Openfort verifies as an OIDC provider with the ID token.
+ *
+ * The Auth0 SPA SDK has no sign in event, so the state is checked when subscribed and whenever the page gets the
+ * focus back, which covers the redirect and popup sign in flows.
+ *
+ * @param auth0 - The `Auth0Client` of `@auth0/auth0-spa-js`.
+ */
+export function auth0AuthAdapter(auth0: Auth0ClientLike): ThirdPartyAuthAdapter {
+  return {
+    provider: ThirdPartyOAuthProvider.OIDC,
+    getAccessToken: async () => (await auth0.getIdTokenClaims())?.__raw ?? null,
+    onAuthStateChanged: (callback) => {
+      let isSignedIn: boolean | null = null;
+      const check = async () => {
+        const authenticated = await auth0.isAuthenticated();
+        if (authenticated === isSignedIn) return;
+        isSignedIn = authenticated;
+        callback(authenticated);
+      };
+
+      check();
+      window.addEventListener('focus', check);
+      return () => window.removeEventListener('focus', check);
+    },
+  };
+}
+
+/**
+ * Returns whether a `thirdPartyAuth` configuration is an adapter that reports sign ins and sign outs.
+ */
+export const isThirdPartyAuthAdapter = (config: ThirdPartyAuthConfiguration): config is ThirdPartyAuthAdapter =>
+  typeof (config as Partial<ThirdPartyAuthAdapter>).onAuthStateChanged === 'function';
@@ -0,0 +1,84 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React, { useState } from 'react';
+import { custom } from 'viem';
+import { mainnet } from 'viem/chains';
+import { Config, createConfig, WagmiProvider } from 'wagmi';
+import { OpenfortProvider } from '../../components/Openfort/OpenfortProvider';
+import { asOpenfortClient, createFakeOpenfortClient, FakeOpenfortClient, FakeOpenfortClientOptions } from './fakeClient';
+import { fakeOpenfortConnector } from './fakeConnector';
+
+type MockOpenfortProviderProps = Omit<React.ComponentProps<typeof OpenfortProvider>, 'publishableKey' | 'client'> & {
+  /** Fake client shared with the test, a new one is created from the other fake client options when omitted. */
+  client?: FakeOpenfortClient;
+  /** Options of the fake client created when no `client` is given. */
+  fakeClient?: FakeOpenfortClientOptions;
+  /** wagmi configuration, defaults to Ethereum mainnet with the fake `Openfort` connector and no network access. */
+  wagmiConfig?: Config;
+  /** Defaults to a query client that does not retry. */
+  queryClient?: QueryClient;
+};
+
+const createMockWagmiConfig = (client: FakeOpenfortClient) => createConfig({
+  chains: [mainnet],
+  connectors: [fakeOpenfortConnector(client)],
+  transports: {
+    [mainnet.id]: custom({
+      request: async ({ method }) => {
+        throw new Error(`${method} was sent to the network, mock it in your test`);
+      },
+    }),
+  },
+  storage: null,
+  multiInjectedProviderDiscovery: false,
+});
+
+/**
+ * Renders {@link OpenfortProvider} with a fake Openfort client, wagmi and React Query, so that components and hooks
+ * can be tested offline in Jest or Vitest.
+ *
+ * @param props - Fake client, optional wagmi and query clients, and any other `OpenfortProvider` prop.
+ * @returns The providers wrapping the children.
+ *
+ * @example
+ * ```tsx
+ * import { createAuthPlayerResponse, createEmbeddedAccount, createFakeOpenfortClient, MockOpenfortProvider } from '@openfort/react/testing';
+ *
+ * const user = createAuthPlayerResponse();
+ * const account = createEmbeddedAccount({ user: user.id });
+ * const client = createFakeOpenfortClient({ user, accounts: [account], activeAccount: account });
+ *
+ * const { result } = renderHook(() => useUser(), {
+ *   wrapper: ({ children }) => <MockOpenfortProvider client={client}>{children}</MockOpenfortProvider>,
+ * });
+ *
+ * await waitFor(() => expect(result.current.user?.id).toBe(user.id));
+ * ```
+ */
+export const MockOpenfortProvider = ({
+  children,
+  client: clientProp,
+  fakeClient,
+  wagmiConfig,
+  queryClient: queryClientProp,
+  ...props
+}: MockOpenfortProviderProps) => {
+  const [client] = useState(() => clientProp ?? createFakeOpenfortClient(fakeClient));
+  const [config] = useState(() => wagmiConfig ?? createMockWagmiConfig(client));
+  const [queryClient] = useState(() => queryClientProp ?? new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  }));
+
+  return (
+    <WagmiProvider config={config} reconnectOnMount={false}>
+      <QueryClientProvider client={queryClient}>
+        <OpenfortProvider
+          {...props}
+          publishableKey="pk_test_mock"
+          client={asOpenfortClient(client)}
+        >
+          {children}
+        </OpenfortProvider>
+      </QueryClientProvider>
+    </WagmiProvider>
+  );
+};
@@ -0,0 +1,89 @@
+import {
+  AccountTypeEnum,
+  AuthPlayerResponse,
+  AuthResponse,
+  ChainTypeEnum,
+  EmbeddedAccount,
+  RecoveryMethod,
+} from '@openfort/openfort-js';
+
+let sequence = 0;
+
+const nextSequence = () => ++sequence;
+
+const toBase64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Creates an unsigned JWT shaped like an Openfort access token.
+ *
+ * @param options - Subject of the token and how long it is valid for, in seconds.
+ * @returns A token whose expiry can be read by `decodeAccessTokenExpiry`.
+ */
+export function createAccessToken({ subject = 'pla_test', expiresIn = 3600 }: { subject?: string; expiresIn?: number } = {}): string {
+  const header = toBase64Url({ alg: 'none', typ: 'JWT' });
+  const payload = toBase64Url({ sub: subject, exp: Math.floor(Date.now() / 1000) + expiresIn });
+  return `${header}.${payload}.signature`;
+}
+
+/**
+ * Creates a player as returned by `client.user.get()`.
+ *
+ * @param overrides - Fields replacing the generated ones.
+ *
+ * @example
+ * ```ts
+ * const user = createAuthPlayerResponse({
+ *   linkedAccounts: [{ provider: 'email', email: 'jane@example.com', verified: true, disabled: false }],
+ * });
+ * ```
+ */
+export function createAuthPlayerResponse(overrides: Partial<AuthPlayerResponse> = {}): AuthPlayerResponse {
+  return {
+    id: `pla_test_${nextSequence()}`,
+    object: 'player',
+    createdAt: Math.floor(Date.now() / 1000),
+    linkedAccounts: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Creates an embedded account as returned by `client.embeddedWallet.list()`.
+ *
+ * Every account gets a distinct address, the chain defaults to Ethereum mainnet.
+ *
+ * @param overrides - Fields replacing the generated ones.
+ *
+ * @example
+ * ```ts
+ * const account = createEmbeddedAccount({ user: user.id, recoveryMethod: RecoveryMethod.PASSWORD });
+ * ```
+ */
+export function createEmbeddedAccount(overrides: Partial<EmbeddedAccount> = {}): EmbeddedAccount {
+  const id = nextSequence();
+  return {
+    id: `acc_test_${id}`,
+    user: 'pla_test',
+    chainType: ChainTypeEnum.EVM,
+    address: `0x${id.toString(16).padStart(40, '0')}`,
+    accountType: AccountTypeEnum.SMART_ACCOUNT,
+    recoveryMethod: RecoveryMethod.AUTOMATIC,
+    chainId: 1,
+    createdAt: Math.floor(Date.now() / 1000),
+    ...overrides,
+  };
+}
+
+/**
+ * Creates the response of a successful sign in for a player.
+ *
+ * @param player - Signed in player, a new one is created when omitted.
+ */
+export function createAuthResponse(player: AuthPlayerResponse = createAuthPlayerResponse()): AuthResponse {
+  return {
+    player,
+    token: createAccessToken({ subject: player.id }),
+    refreshToken: `refresh_test_${nextSequence()}`,
+  };
+}
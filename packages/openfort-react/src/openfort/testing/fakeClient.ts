@@ -0,0 +1,667 @@
+import {
+  AccountTypeEnum,
+  AuthActionRequiredActions,
+  AuthActionRequiredResponse,
+  AuthApi,
+  AuthPlayerResponse,
+  AuthResponse,
+  ChainTypeEnum,
+  EmbeddedAccount,
+  EmbeddedState,
+  EmbeddedWalletApi,
+  Openfort as OpenfortClient,
+  OpenfortError as SDKOpenfortError,
+  OpenfortErrorType as SDKErrorType,
+  OpenfortEventMap,
+  OpenfortEvents,
+  RecoveryMethod,
+  RecoveryParams,
+  UserApi,
+  WrongRecoveryPasswordError,
+} from '@openfort/openfort-js';
+import { Chain, Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { mainnet } from 'viem/chains';
+import { OpenfortStorage } from '../core/storage';
+import { createAccessToken, createAuthPlayerResponse, createAuthResponse, createEmbeddedAccount } from './factories';
+import { announceFakeEthereumProvider, createFakeEthereumProvider, FakeEthereumProvider } from './fakeEthereumProvider';
+
+type FakeAuthApi = Pick<AuthApi,
+  | 'logInWithEmailPassword'
+  | 'signUpWithEmailPassword'
+  | 'signUpGuest'
+  | 'linkEmailPassword'
+  | 'unlinkEmailPassword'
+  | 'requestEmailVerification'
+  | 'verifyEmail'
+  | 'requestResetPassword'
+  | 'resetPassword'
+  | 'initOAuth'
+  | 'initLinkOAuth'
+  | 'unlinkOAuth'
+  | 'loginWithIdToken'
+  | 'storeCredentials'
+  | 'initSIWE'
+  | 'authenticateWithSIWE'
+  | 'linkWallet'
+  | 'unlinkWallet'
+  | 'logout'
+>;
+
+type FakeEmbeddedWalletApi = Pick<EmbeddedWalletApi,
+  | 'getEmbeddedState'
+  | 'list'
+  | 'get'
+  | 'create'
+  | 'recover'
+  | 'configure'
+  | 'setRecoveryMethod'
+  | 'exportPrivateKey'
+  | 'signMessage'
+  | 'signTypedData'
+  | 'getEthereumProvider'
+>;
+
+type FakeUserApi = Pick<UserApi, 'get'>;
+
+export type FakeOpenfortCall = {
+  /** Name of the method, e.g. `auth.logInWithEmailPassword`. */
+  method: string;
+  args: unknown[];
+};
+
+export type FakeOpenfortClientOptions = {
+  /**
+   * Player that is signed in when the client is created.
+   *
+   * @defaultValue null
+   */
+  user?: AuthPlayerResponse | null;
+  /** Embedded accounts of the signed in player. */
+  accounts?: EmbeddedAccount[];
+  /** Account the embedded signer is configured with, the embedded state starts `READY` when set. */
+  activeAccount?: EmbeddedAccount | null;
+  /** Email and password pairs accepted by `logInWithEmailPassword`. */
+  users?: { email: string; password: string; player?: AuthPlayerResponse }[];
+  /** Returns `verify_email` actions until the email is verified, like projects requiring email verification. */
+  requireEmailVerification?: boolean;
+  /**
+   * Delay applied to every call, in milliseconds.
+   *
+   * @defaultValue 0
+   */
+  latency?: number;
+  /**
+   * Where the players, sessions and wallets are kept, so that they survive page reloads such as OAuth redirects.
+   * They only live in memory when omitted.
+   */
+  storage?: OpenfortStorage;
+  /** @defaultValue 'openfort-fake-backend' */
+  storageKey?: string;
+  /**
+   * Chains of the provider returned by `embeddedWallet.getEthereumProvider`, transactions are sent to their default RPC URL.
+   *
+   * @defaultValue [mainnet]
+   */
+  chains?: readonly Chain[];
+  /** Replaces methods of the fake to script their responses, e.g. to make a call fail. */
+  overrides?: {
+    auth?: Partial<FakeAuthApi>;
+    user?: Partial<FakeUserApi>;
+    embeddedWallet?: Partial<FakeEmbeddedWalletApi>;
+  };
+};
+
+/**
+ * In-memory stand-in for the Openfort client, see {@link createFakeOpenfortClient}.
+ */
+export type FakeOpenfortClient = {
+  auth: FakeAuthApi;
+  user: FakeUserApi;
+  embeddedWallet: FakeEmbeddedWalletApi;
+  eventEmitter: OpenfortClient['eventEmitter'];
+  getAccessToken: OpenfortClient['getAccessToken'];
+  validateAndRefreshToken: OpenfortClient['validateAndRefreshToken'];
+  /** Every call received by the fake, in order. */
+  calls: FakeOpenfortCall[];
+  /** Signs a player in, or out with `null`, without going through an authentication method. */
+  setUser: (player: AuthPlayerResponse | null) => void;
+  /** Replaces the embedded accounts of the signed in player. */
+  setAccounts: (accounts: EmbeddedAccount[]) => void;
+  /**
+   * Forces the embedded state, `null` goes back to the state derived from the session.
+   * The next sign in, sign out, wallet creation or recovery also clears the forced state.
+   */
+  setEmbeddedState: (state: EmbeddedState | null) => void;
+  getActiveAccount: () => EmbeddedAccount | null;
+};
+
+type Listener = (...args: unknown[]) => void;
+
+class FakeEventEmitter {
+  private listenersByEvent = new Map<PropertyKey, Set<Listener>>();
+
+  on(event: PropertyKey, listener: Listener) {
+    if (!this.listenersByEvent.has(event)) this.listenersByEvent.set(event, new Set());
+    this.listenersByEvent.get(event)!.add(listener);
+    return this;
+  }
+
+  off(event: PropertyKey, listener: Listener) {
+    this.listenersByEvent.get(event)?.delete(listener);
+    return this;
+  }
+
+  once(event: PropertyKey, listener: Listener) {
+    const wrapped: Listener = (...args) => {
+      this.off(event, wrapped);
+      listener(...args);
+    };
+    return this.on(event, wrapped);
+  }
+
+  emit(event: PropertyKey, ...args: unknown[]) {
+    const listeners = this.listeners(event);
+    listeners.forEach((listener) => listener(...args));
+    return listeners.length > 0;
+  }
+
+  removeAllListeners(event?: PropertyKey) {
+    if (event === undefined) this.listenersByEvent.clear();
+    else this.listenersByEvent.delete(event);
+    return this;
+  }
+
+  listenerCount(event: PropertyKey) {
+    return this.listenersByEvent.get(event)?.size ?? 0;
+  }
+
+  listeners(event: PropertyKey) {
+    return [...(this.listenersByEvent.get(event) ?? [])];
+  }
+}
+
+const authError = (message: string, type = SDKErrorType.AUTHENTICATION_ERROR) => new SDKOpenfortError(message, type);
+
+type LinkedAccountResponse = AuthPlayerResponse['linkedAccounts'][number];
+
+const parseSiweAddress = (message: string) => message.split('\n')[1]?.trim() ?? '';
+
+// Covers the OAuth providers that openfort-js does not list as linked account providers yet, e.g. LINE
+const linkedOAuthAccount = (provider: string): LinkedAccountResponse => ({
+  provider: provider as LinkedAccountResponse['provider'],
+  disabled: false,
+});
+
+// Skips the provider and sends the player straight back to the app with its credentials
+const buildOAuthRedirect = (
+  options: { redirectTo?: string; queryParams?: Record<string, string>; skipBrowserRedirect?: boolean } | undefined,
+  { player, token, refreshToken }: AuthResponse
+) => {
+  const url = new URL(options?.redirectTo ?? 'https://example.com/');
+  Object.entries(options?.queryParams ?? {}).forEach(([key, value]) => url.searchParams.set(key, value));
+  url.searchParams.set('player_id', player.id);
+  url.searchParams.set('access_token', token);
+  url.searchParams.set('refresh_token', refreshToken);
+
+  // Like the SDK, navigates right away unless asked not to
+  if (!options?.skipBrowserRedirect && typeof window !== 'undefined') window.location.assign(url.toString());
+  return { url: url.toString(), key: `oauth_${player.id}` };
+};
+
+type FakeBackendSnapshot = {
+  players: AuthPlayerResponse[];
+  credentials: [string, { password: string; playerId: string }][];
+  accountsByPlayer: [string, EmbeddedAccount[]][];
+  recoveryPasswords: [string, string][];
+  privateKeys: [string, Hex][];
+  externalPlayers: [string, string][];
+  session: AuthResponse | null;
+  activeAccountId: string | null;
+};
+
+// Stands in for signatures of accounts that were not created by the fake and have no private key
+const placeholderSignature = `0x${'2'.repeat(130)}` as Hex;
+
+/**
+ * Creates an in-memory fake of the Openfort client for unit tests and the sandbox mode.
+ *
+ * The fake keeps players, sessions and embedded accounts in memory and emits the same SDK events as
+ * the real client, so the provider reacts to sign ins and wallet creation as it does in production.
+ * Wallets created through the fake are backed by a local private key, accounts passed in the options
+ * return placeholder signatures. Every method can be replaced through `overrides` to script failures.
+ *
+ * @param options - Initial session, accounts and scripted methods.
+ * @returns The fake client, pass it to `MockOpenfortProvider`.
+ *
+ * @example
+ * ```ts
+ * const client = createFakeOpenfortClient({
+ *   users: [{ email: 'jane@example.com', password: 'correct horse' }],
+ *   overrides: {
+ *     embeddedWallet: { create: async () => { throw new Error('Shield is down'); } },
+ *   },
+ * });
+ *
+ * await client.auth.logInWithEmailPassword({ email: 'jane@example.com', password: 'correct horse' });
+ * expect(client.calls.map((call) => call.method)).toContain('auth.logInWithEmailPassword');
+ * ```
+ */
+export function createFakeOpenfortClient({
+  user = null,
+  accounts = [],
+  activeAccount = null,
+  users = [],
+  requireEmailVerification = false,
+  latency = 0,
+  storage,
+  storageKey = 'openfort-fake-backend',
+  chains = [mainnet],
+  overrides = {},
+}: FakeOpenfortClientOptions = {}): FakeOpenfortClient {
+  const eventEmitter = new FakeEventEmitter();
+  const emit = (event: keyof OpenfortEventMap, ...args: unknown[]) => eventEmitter.emit(event, ...args);
+  const calls: FakeOpenfortCall[] = [];
+
+  const players = new Map<string, AuthPlayerResponse>();
+  const credentials = new Map<string, { password: string; playerId: string }>();
+  const accountsByPlayer = new Map<string, EmbeddedAccount[]>();
+  const recoveryPasswords = new Map<string, string>();
+  const externalPlayers = new Map<string, string>();
+  const privateKeys = new Map<string, Hex>();
+  let ethereumProvider: FakeEthereumProvider | null = null;
+
+  let session: { player: AuthPlayerResponse; token: string; refreshToken: string } | null = null;
+  let currentAccount: EmbeddedAccount | null = null;
+  let forcedState: EmbeddedState | null = null;
+
+  const savePlayer = (player: AuthPlayerResponse) => {
+    players.set(player.id, player);
+    if (session?.player.id === player.id) session.player = player;
+    return player;
+  };
+
+  users.forEach(({ email, password, player }) => {
+    const saved = savePlayer(player ?? createAuthPlayerResponse({
+      linkedAccounts: [{ provider: 'email', email, verified: true, disabled: false }],
+    }));
+    credentials.set(email, { password, playerId: saved.id });
+  });
+
+  const startSession = (player: AuthPlayerResponse, tokens?: Omit<AuthResponse, 'player'>): AuthResponse => {
+    forcedState = null;
+    setCurrentAccount(null);
+    session = {
+      player: savePlayer(player),
+      token: tokens?.token ?? createAccessToken({ subject: player.id }),
+      refreshToken: tokens?.refreshToken ?? `refresh_${player.id}_${Date.now()}`,
+    };
+    const response = { ...session };
+    emit(OpenfortEvents.ON_AUTH_SUCCESS, response);
+    return response;
+  };
+
+  const requireSession = () => {
+    if (!session) throw authError('No authentication found', SDKErrorType.NOT_LOGGED_IN_ERROR);
+    return session;
+  };
+
+  const updatePlayer = (update: (player: AuthPlayerResponse) => AuthPlayerResponse) =>
+    savePlayer(update(requireSession().player));
+
+  const playerAccounts = () => (session ? accountsByPlayer.get(session.player.id) ?? [] : []);
+
+  const verifyEmailAction = (): AuthActionRequiredResponse => ({ action: AuthActionRequiredActions.ACTION_VERIFY_EMAIL });
+
+  const isEmailVerified = (player: AuthPlayerResponse, email: string) =>
+    player.linkedAccounts.some((account) => account.provider === 'email' && account.email === email && account.verified);
+
+  const checkRecovery = (account: EmbeddedAccount, recoveryParams: RecoveryParams) => {
+    if (recoveryParams.recoveryMethod !== RecoveryMethod.PASSWORD) return;
+    const expected = recoveryPasswords.get(account.id);
+    if (expected !== undefined && expected !== recoveryParams.password) throw new WrongRecoveryPasswordError();
+  };
+
+  const getLocalAccount = () => {
+    const privateKey = currentAccount && privateKeys.get(currentAccount.id);
+    return privateKey ? privateKeyToAccount(privateKey) : null;
+  };
+
+  const setCurrentAccount = (account: EmbeddedAccount | null) => {
+    currentAccount = account;
+    ethereumProvider?.emitAccountsChanged();
+  };
+
+  const activate = (account: EmbeddedAccount) => {
+    forcedState = null;
+    setCurrentAccount(account);
+    return account;
+  };
+
+  if (user) {
+    session = {
+      player: savePlayer(user),
+      token: createAccessToken({ subject: user.id }),
+      refreshToken: `refresh_${user.id}`,
+    };
+    accountsByPlayer.set(user.id, accounts);
+    currentAccount = activeAccount;
+  }
+
+  const persist = () => {
+    if (!storage) return;
+    const snapshot: FakeBackendSnapshot = {
+      players: [...players.values()],
+      credentials: [...credentials.entries()],
+      accountsByPlayer: [...accountsByPlayer.entries()],
+      recoveryPasswords: [...recoveryPasswords.entries()],
+      privateKeys: [...privateKeys.entries()],
+      externalPlayers: [...externalPlayers.entries()],
+      session,
+      activeAccountId: currentAccount?.id ?? null,
+    };
+    storage.save(storageKey, JSON.stringify(snapshot));
+  };
+
+  const restore = (serialized: string | null) => {
+    if (!serialized) return;
+    let snapshot: FakeBackendSnapshot;
+    try {
+      snapshot = JSON.parse(serialized);
+    } catch {
+      // A corrupted snapshot starts a new backend
+      return;
+    }
+
+    snapshot.players.forEach((player) => players.set(player.id, player));
+    snapshot.credentials.forEach(([email, entry]) => credentials.set(email, entry));
+    snapshot.accountsByPlayer.forEach(([playerId, playerAccounts]) => accountsByPlayer.set(playerId, playerAccounts));
+    snapshot.recoveryPasswords.forEach(([accountId, password]) => recoveryPasswords.set(accountId, password));
+    snapshot.privateKeys.forEach(([accountId, privateKey]) => privateKeys.set(accountId, privateKey));
+    snapshot.externalPlayers.forEach(([key, playerId]) => externalPlayers.set(key, playerId));
+    session = snapshot.session;
+    currentAccount = session
+      ? accountsByPlayer.get(session.player.id)?.find((account) => account.id === snapshot.activeAccountId) ?? null
+      : null;
+  };
+
+  const ready = storage ? storage.get(storageKey).then(restore) : Promise.resolve();
+
+  const auth: FakeAuthApi = {
+    logInWithEmailPassword: async ({ email, password }) => {
+      const entry = credentials.get(email);
+      if (!entry || entry.password !== password) throw authError('Invalid email or password');
+
+      const player = players.get(entry.playerId)!;
+      if (requireEmailVerification && !isEmailVerified(player, email)) return verifyEmailAction();
+      return startSession(player);
+    },
+    signUpWithEmailPassword: async ({ email, password }) => {
+      if (credentials.has(email)) throw authError('Email already exists', SDKErrorType.USER_REGISTRATION_ERROR);
+
+      const player = savePlayer(createAuthPlayerResponse({
+        linkedAccounts: [{ provider: 'email', email, verified: !requireEmailVerification, disabled: false }],
+      }));
+      credentials.set(email, { password, playerId: player.id });
+
+      if (requireEmailVerification) return verifyEmailAction();
+      return startSession(player);
+    },
+    signUpGuest: async () => startSession(createAuthPlayerResponse()),
+    linkEmailPassword: async ({ email, password }) => {
+      if (credentials.has(email)) throw authError('Email already exists');
+
+      const player = updatePlayer((current) => ({
+        ...current,
+        linkedAccounts: [...current.linkedAccounts, { provider: 'email', email, verified: !requireEmailVerification, disabled: false }],
+      }));
+      credentials.set(email, { password, playerId: player.id });
+      return player;
+    },
+    unlinkEmailPassword: async ({ email }) => {
+      credentials.delete(email);
+      return updatePlayer((current) => ({
+        ...current,
+        linkedAccounts: current.linkedAccounts.filter((account) => !(account.provider === 'email' && account.email === email)),
+      }));
+    },
+    requestEmailVerification: async () => { },
+    verifyEmail: async ({ email }) => {
+      const entry = credentials.get(email);
+      if (!entry) throw authError('Email not found');
+
+      const player = players.get(entry.playerId)!;
+      savePlayer({
+        ...player,
+        linkedAccounts: player.linkedAccounts.map((account) => account.email === email ? { ...account, verified: true } : account),
+      });
+    },
+    requestResetPassword: async () => { },
+    resetPassword: async ({ email, password }) => {
+      const entry = credentials.get(email);
+      if (!entry) throw authError('Email not found');
+      credentials.set(email, { ...entry, password });
+    },
+    initOAuth: async ({ provider, options }) => {
+      const player = savePlayer(createAuthPlayerResponse({ linkedAccounts: [linkedOAuthAccount(provider)] }));
+      return buildOAuthRedirect(options, createAuthResponse(player));
+    },
+    initLinkOAuth: async ({ provider, options }) => {
+      updatePlayer((current) => ({
+        ...current,
+        linkedAccounts: [...current.linkedAccounts, linkedOAuthAccount(provider)],
+      }));
+      return buildOAuthRedirect(options, requireSession());
+    },
+    unlinkOAuth: async ({ provider }) => updatePlayer((current) => ({
+      ...current,
+      linkedAccounts: current.linkedAccounts.filter((account) => account.provider !== provider),
+    })),
+    loginWithIdToken: async ({ provider, token }) => {
+      const key = `${provider}:${token}`;
+      const existing = externalPlayers.get(key);
+      const player = existing ? players.get(existing)! : createAuthPlayerResponse({
+        linkedAccounts: [{ ...linkedOAuthAccount(provider), externalUserId: token }],
+      });
+      externalPlayers.set(key, player.id);
+      return startSession(player);
+    },
+    storeCredentials: async ({ player: playerId, accessToken, refreshToken }) => {
+      const player = playerId ? players.get(playerId) : undefined;
+      if (!player) throw authError('Player ID is required to store credentials');
+      startSession(player, { token: accessToken, refreshToken });
+    },
+    initSIWE: async ({ address }) => ({
+      address,
+      nonce: Math.random().toString(36).slice(2),
+      expiresAt: Date.now() + 5 * 60_000,
+    }),
+    authenticateWithSIWE: async ({ message, walletClientType, connectorType }) => {
+      const address = parseSiweAddress(message).toLowerCase();
+      const existing = [...players.values()].find((player) =>
+        player.linkedAccounts.some((account) => account.provider === 'wallet' && account.address?.toLowerCase() === address));
+      return startSession(existing ?? createAuthPlayerResponse({
+        linkedAccounts: [{ provider: 'wallet', address, walletClientType, connectorType, disabled: false }],
+      }));
+    },
+    linkWallet: async ({ message, walletClientType, connectorType }) => {
+      const address = parseSiweAddress(message).toLowerCase();
+      const owner = [...players.values()].find((player) =>
+        player.linkedAccounts.some((account) => account.provider === 'wallet' && account.address?.toLowerCase() === address));
+      if (owner) throw authError('Wallet already linked to a player');
+
+      return updatePlayer((current) => ({
+        ...current,
+        linkedAccounts: [...current.linkedAccounts, { provider: 'wallet', address, walletClientType, connectorType, disabled: false }],
+      }));
+    },
+    unlinkWallet: async ({ address }) => updatePlayer((current) => ({
+      ...current,
+      linkedAccounts: current.linkedAccounts.filter((account) => account.address?.toLowerCase() !== address.toLowerCase()),
+    })),
+    logout: async () => {
+      if (!session) return;
+      session = null;
+      setCurrentAccount(null);
+      forcedState = null;
+      emit(OpenfortEvents.ON_LOGOUT);
+    },
+  };
+
+  const embeddedWallet: FakeEmbeddedWalletApi = {
+    getEmbeddedState: async () => {
+      if (forcedState !== null) return forcedState;
+      if (!session) return EmbeddedState.UNAUTHENTICATED;
+      return currentAccount ? EmbeddedState.READY : EmbeddedState.EMBEDDED_SIGNER_NOT_CONFIGURED;
+    },
+    list: async () => playerAccounts(),
+    get: async () => {
+      if (!currentAccount) throw authError('No embedded account configured', SDKErrorType.MISSING_SIGNER_ERROR);
+      return currentAccount;
+    },
+    create: async ({ accountType, chainType, chainId, recoveryParams }) => {
+      const { player } = requireSession();
+      const privateKey = generatePrivateKey();
+      const account = createEmbeddedAccount({
+        user: player.id,
+        address: privateKeyToAccount(privateKey).address,
+        accountType: accountType ?? AccountTypeEnum.SMART_ACCOUNT,
+        chainType: chainType ?? ChainTypeEnum.EVM,
+        chainId,
+        recoveryMethod: recoveryParams.recoveryMethod,
+      });
+      if (recoveryParams.recoveryMethod === RecoveryMethod.PASSWORD) recoveryPasswords.set(account.id, recoveryParams.password);
+      privateKeys.set(account.id, privateKey);
+      accountsByPlayer.set(player.id, [...playerAccounts(), account]);
+
+      activate(account);
+      emit(OpenfortEvents.ON_EMBEDDED_WALLET_CREATED, account);
+      return account;
+    },
+    recover: async ({ account: accountId, recoveryParams }) => {
+      requireSession();
+      const account = playerAccounts().find((candidate) => candidate.id === accountId);
+      if (!account) throw authError(`Embedded account ${accountId} not found`, SDKErrorType.MISSING_SIGNER_ERROR);
+      checkRecovery(account, recoveryParams);
+
+      activate(account);
+      emit(OpenfortEvents.ON_EMBEDDED_WALLET_RECOVERED, account);
+      return account;
+    },
+    configure: async ({ chainId, recoveryParams, chainType, accountType }) => {
+      const existing = playerAccounts().find((account) => account.chainId === chainId);
+      if (existing) return embeddedWallet.recover({ account: existing.id, recoveryParams });
+      return embeddedWallet.create({
+        chainId,
+        recoveryParams,
+        chainType: chainType ?? ChainTypeEnum.EVM,
+        accountType: accountType ?? AccountTypeEnum.SMART_ACCOUNT,
+      });
+    },
+    setRecoveryMethod: async (previousRecovery, newRecovery) => {
+      const { player } = requireSession();
+      if (!currentAccount) throw authError('No embedded account configured', SDKErrorType.MISSING_SIGNER_ERROR);
+      checkRecovery(currentAccount, previousRecovery);
+
+      const updated = { ...currentAccount, recoveryMethod: newRecovery.recoveryMethod };
+      if (newRecovery.recoveryMethod === RecoveryMethod.PASSWORD) recoveryPasswords.set(updated.id, newRecovery.password);
+      else recoveryPasswords.delete(updated.id);
+
+      accountsByPlayer.set(player.id, playerAccounts().map((account) => account.id === updated.id ? updated : account));
+      currentAccount = updated;
+    },
+    exportPrivateKey: async () => {
+      if (!currentAccount) throw authError('No embedded account configured', SDKErrorType.MISSING_SIGNER_ERROR);
+      return privateKeys.get(currentAccount.id) ?? `0x${'1'.repeat(64)}`;
+    },
+    signMessage: async (message) => {
+      if (!currentAccount) throw authError('No embedded account configured', SDKErrorType.MISSING_SIGNER_ERROR);
+      const localAccount = getLocalAccount();
+      if (!localAccount) return placeholderSignature;
+      return localAccount.signMessage({ message: typeof message === 'string' ? message : { raw: message } });
+    },
+    signTypedData: async (domain, types, message) => {
+      if (!currentAccount) throw authError('No embedded account configured', SDKErrorType.MISSING_SIGNER_ERROR);
+      const localAccount = getLocalAccount();
+      if (!localAccount) return placeholderSignature;
+
+      const primaryType = Object.keys(types).find((type) => type !== 'EIP712Domain')!;
+      return localAccount.signTypedData({ domain, types, primaryType, message } as Parameters<typeof localAccount.signTypedData>[0]);
+    },
+    getEthereumProvider: async (options) => {
+      if (!ethereumProvider) {
+        ethereumProvider = createFakeEthereumProvider({ getAccount: getLocalAccount, chains });
+        if (options?.announceProvider !== false) announceFakeEthereumProvider(ethereumProvider);
+      }
+      return ethereumProvider as unknown as Awaited<ReturnType<EmbeddedWalletApi['getEthereumProvider']>>;
+    },
+  };
+
+  const userApi: FakeUserApi = {
+    get: async () => requireSession().player,
+  };
+
+  // Records every call, applies the latency and the scripted overrides
+  const instrument = <T extends object>(surface: string, methods: T, scripted: Partial<T> = {}): T => {
+    const instrumented = {} as T;
+    (Object.keys(methods) as (keyof T)[]).forEach((name) => {
+      const implementation = (scripted[name] ?? methods[name]) as unknown as (...args: unknown[]) => Promise<unknown>;
+      instrumented[name] = (async (...args: unknown[]) => {
+        calls.push({ method: `${surface}.${String(name)}`, args });
+        await ready;
+        if (latency > 0) await new Promise((resolve) => setTimeout(resolve, latency));
+        try {
+          return await implementation(...args);
+        } finally {
+          persist();
+        }
+      }) as T[keyof T];
+    });
+    return instrumented;
+  };
+
+  return {
+    auth: instrument('auth', auth, overrides.auth),
+    user: instrument('user', userApi, overrides.user),
+    embeddedWallet: instrument('embeddedWallet', embeddedWallet, overrides.embeddedWallet),
+    eventEmitter: eventEmitter as unknown as OpenfortClient['eventEmitter'],
+    getAccessToken: async () => {
+      await ready;
+      return session?.token ?? null;
+    },
+    validateAndRefreshToken: async (forceRefresh) => {
+      await ready;
+      if (!session) throw authError('No authentication found', SDKErrorType.NOT_LOGGED_IN_ERROR);
+      if (forceRefresh) {
+        session = { ...session, token: createAccessToken({ subject: session.player.id }) };
+        persist();
+      }
+    },
+    calls,
+    setUser: (player) => {
+      if (player) {
+        startSession(player);
+        persist();
+      } else {
+        auth.logout().then(persist);
+      }
+    },
+    setAccounts: (nextAccounts) => {
+      const { player } = requireSession();
+      accountsByPlayer.set(player.id, nextAccounts);
+      if (currentAccount && !nextAccounts.some((account) => account.id === currentAccount?.id)) setCurrentAccount(null);
+      persist();
+    },
+    setEmbeddedState: (state) => {
+      forcedState = state;
+      // The provider refreshes the embedded state on SDK events, so the new state is picked up right away
+      emit(OpenfortEvents.ON_SWITCH_ACCOUNT, currentAccount?.address ?? '');
+    },
+    getActiveAccount: () => currentAccount,
+  };
+}
+
+/**
+ * Returns the fake typed as the real client, for the places of the library that expect one.
+ */
+export const asOpenfortClient = (client: FakeOpenfortClient) => client as unknown as OpenfortClient;
@@ -0,0 +1,91 @@
+import { Address, getAddress, Hex, numberToHex, SwitchChainError, UserRejectedRequestError } from 'viem';
+import { createConnector } from 'wagmi';
+import { FakeOpenfortClient } from './fakeClient';
+
+type Provider = { request: (args: { method: string; params?: unknown }) => Promise<unknown> };
+
+/**
+ * Creates a wagmi connector for the embedded wallet of a fake Openfort client.
+ *
+ * The connector is named `Openfort` like the one announced by the embedded wallet, so the provider connects it
+ * once the fake client reports a `READY` embedded state. Its accounts are the active account of the fake client.
+ *
+ * @param client - Fake client created with `createFakeOpenfortClient`.
+ */
+export function fakeOpenfortConnector(client: FakeOpenfortClient) {
+  let connectedChainId: number | undefined;
+
+  const getAccounts = (): Address[] => {
+    const account = client.getActiveAccount();
+    return account ? [getAddress(account.address)] : [];
+  };
+
+  return createConnector<Provider>((config) => {
+    const request: Provider['request'] = async ({ method, params }) => {
+      switch (method) {
+        case 'eth_chainId':
+          return numberToHex(connectedChainId ?? config.chains[0].id);
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return getAccounts();
+        case 'wallet_switchEthereumChain': {
+          const chainId = Number((params as [{ chainId: Hex }])[0].chainId);
+          if (!config.chains.some((chain) => chain.id === chainId)) throw new SwitchChainError(new Error(`Chain ${chainId} is not configured`));
+          connectedChainId = chainId;
+          config.emitter.emit('change', { chainId });
+          return null;
+        }
+        case 'personal_sign':
+          return client.embeddedWallet.signMessage((params as [Hex, Address])[0]);
+        default:
+          throw new Error(`${method} is not supported by the fake Openfort connector`);
+      }
+    };
+    const provider: Provider = { request };
+
+    return {
+      id: 'xyz.openfort',
+      name: 'Openfort',
+      type: 'injected',
+      async connect({ chainId } = {}) {
+        const accounts = getAccounts();
+        if (!accounts.length) throw new UserRejectedRequestError(new Error('The fake Openfort client has no active account.'));
+
+        connectedChainId = chainId ?? client.getActiveAccount()?.chainId ?? config.chains[0].id;
+        return { accounts, chainId: connectedChainId };
+      },
+      async disconnect() {
+        connectedChainId = undefined;
+      },
+      async getAccounts() {
+        return getAccounts();
+      },
+      async getChainId() {
+        return connectedChainId ?? config.chains[0].id;
+      },
+      async getProvider() {
+        return provider;
+      },
+      async isAuthorized() {
+        return getAccounts().length > 0;
+      },
+      async switchChain({ chainId }) {
+        const chain = config.chains.find((candidate) => candidate.id === chainId);
+        if (!chain) throw new SwitchChainError(new Error(`Chain ${chainId} is not configured`));
+
+        await request({ method: 'wallet_switchEthereumChain', params: [{ chainId: numberToHex(chainId) }] });
+        return chain;
+      },
+      onAccountsChanged(accounts) {
+        if (accounts.length === 0) this.onDisconnect();
+        else config.emitter.emit('change', { accounts: accounts.map((account) => getAddress(account)) });
+      },
+      onChainChanged(chain) {
+        config.emitter.emit('change', { chainId: Number(chain) });
+      },
+      onDisconnect() {
+        config.emitter.emit('disconnect');
+      },
+    };
+  });
+}
@@ -0,0 +1,126 @@
+import { Chain, createWalletClient, Hex, http, LocalAccount, numberToHex, SwitchChainError, TransactionRequest, UserRejectedRequestError } from 'viem';
+import { embeddedWalletId } from '../../constants/openfort';
+
+type RequestArguments = { method: string; params?: unknown };
+type ProviderListener = (...args: unknown[]) => void;
+
+export type FakeEthereumProvider = {
+  request: (args: RequestArguments) => Promise<unknown>;
+  on: (event: string, listener: ProviderListener) => void;
+  removeListener: (event: string, listener: ProviderListener) => void;
+  /** Notifies wagmi that the active account changed. */
+  emitAccountsChanged: () => void;
+};
+
+export type FakeEthereumProviderOptions = {
+  /** Returns the local account of the active embedded wallet, `null` when no wallet is configured. */
+  getAccount: () => LocalAccount | null;
+  /** Chains the provider can switch to, transactions are sent to their default RPC URL, e.g. a local anvil node. */
+  chains: readonly Chain[];
+  /** Chain selected first, defaults to the first chain. */
+  chainId?: number;
+};
+
+// Same icon as the provider announced by the Openfort SDK, so the modal looks the same in sandbox mode
+const openfortIcon: `data:image/${string}` = 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" viewBox="597.32 331.34 171.36 105.32"><g><rect x="673.9" y="404.26" width="18.2" height="32.4" /><polygon points="768.68,331.36 768.68,331.36 768.68,331.34 610.78,331.34 610.78,331.36 597.32,331.36 597.32,436.64 615.52,436.64 615.52,349.54 750.48,349.54 750.48,436.64 768.68,436.64" /><polygon points="732.16,367.79 633.83,367.79 633.83,370.19 633.79,370.19 633.79,436.64 651.99,436.64 651.99,385.99 713.9,385.99 713.9,436.64 732.09,436.64 732.09,385.99 732.16,385.99" /></g></svg>';
+
+/**
+ * Creates an EIP-1193 provider that signs with a local private key account.
+ *
+ * Signatures never leave the browser, transactions are signed locally and sent to the RPC URL of the chain.
+ * Read-only requests are forwarded to the same RPC URL.
+ *
+ * @param options - Account, chains and initial chain of the provider.
+ */
+export function createFakeEthereumProvider({ getAccount, chains, chainId }: FakeEthereumProviderOptions): FakeEthereumProvider {
+  const listeners = new Map<string, Set<ProviderListener>>();
+  let currentChainId = chainId ?? chains[0]?.id;
+
+  const emit = (event: string, ...args: unknown[]) => listeners.get(event)?.forEach((listener) => listener(...args));
+
+  const getChain = (id = currentChainId) => {
+    const chain = chains.find((candidate) => candidate.id === id);
+    if (!chain) throw new SwitchChainError(new Error(`Chain ${id} is not configured`));
+    return chain;
+  };
+
+  const requireAccount = () => {
+    const account = getAccount();
+    if (!account) throw new UserRejectedRequestError(new Error('No embedded wallet is configured'));
+    return account;
+  };
+
+  const getWalletClient = () => {
+    const chain = getChain();
+    return createWalletClient({ account: requireAccount(), chain, transport: http(chain.rpcUrls.default.http[0]) });
+  };
+
+  const request = async ({ method, params }: RequestArguments): Promise<unknown> => {
+    switch (method) {
+      case 'eth_chainId':
+        return numberToHex(currentChainId);
+      case 'eth_accounts':
+      case 'eth_requestAccounts': {
+        const account = getAccount();
+        return account ? [account.address] : [];
+      }
+      case 'wallet_switchEthereumChain': {
+        const nextChainId = Number((params as [{ chainId: Hex }])[0].chainId);
+        getChain(nextChainId);
+        currentChainId = nextChainId;
+        emit('chainChanged', numberToHex(nextChainId));
+        return null;
+      }
+      case 'personal_sign': {
+        const [message] = params as [Hex];
+        return requireAccount().signMessage({ message: { raw: message } });
+      }
+      case 'eth_signTypedData_v4': {
+        const [, typedData] = params as [Hex, string];
+        return requireAccount().signTypedData(JSON.parse(typedData));
+      }
+      case 'eth_sendTransaction': {
+        const [transaction] = params as [TransactionRequest & { gas?: Hex; value?: Hex }];
+        return getWalletClient().sendTransaction({
+          to: transaction.to,
+          data: transaction.data,
+          value: transaction.value === undefined ? undefined : BigInt(transaction.value),
+          gas: transaction.gas === undefined ? undefined : BigInt(transaction.gas),
+        });
+      }
+      default:
+        return getWalletClient().transport.request({ method, params } as never);
+    }
+  };
+
+  return {
+    request,
+    on: (event, listener) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    },
+    removeListener: (event, listener) => {
+      listeners.get(event)?.delete(listener);
+    },
+    emitAccountsChanged: () => {
+      const account = getAccount();
+      emit('accountsChanged', account ? [account.address] : []);
+    },
+  };
+}
+
+/**
+ * Announces a provider as the Openfort embedded wallet through EIP-6963, like the Openfort SDK does.
+ */
+export function announceFakeEthereumProvider(provider: FakeEthereumProvider) {
+  if (typeof window === 'undefined') return;
+
+  const announcement = new CustomEvent('eip6963:announceProvider', {
+    detail: Object.freeze({
+      info: { icon: openfortIcon, name: 'Openfort', rdns: embeddedWalletId, uuid: `${embeddedWalletId}.sandbox` },
+      provider,
+    }),
+  });
+  window.dispatchEvent(announcement);
+  window.addEventListener('eip6963:requestProvider', () => window.dispatchEvent(announcement));
+}
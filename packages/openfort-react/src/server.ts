@@ -0,0 +1,3 @@
+// Server-safe entry point, must not import any client-only module (React components, hooks, wagmi)
+export { cookieToOpenfortInitialState, openfortInitialStateCookieName } from './openfort/core/initialState';
+export type { OpenfortInitialState } from './openfort/core/initialState';
@@ -1,14 +1,101 @@
 import { createSiweMessage } from "viem/siwe";
-import { sepolia } from "wagmi/chains";
-
-export const createSIWEMessage = (address: `0x${string}`, nonce: string, chainId?: number) =>
-  createSiweMessage({
-    domain: window.location.host,
-    address,
-    statement:
-      "By signing, you are proving you own this wallet and logging in. This does not initiate a transaction or cost any fees.",
-    uri: window.location.origin,
+import { OpenfortError, OpenfortErrorType } from "../types";
+
+const defaultStatement = "By signing, you are proving you own this wallet and logging in. This does not initiate a transaction or cost any fees.";
+
+export type SiweMessageParams = {
+  address: `0x${string}`;
+  /** Nonce returned by Openfort for this sign in. */
+  nonce: string;
+  /** Chain of the connected wallet. */
+  chainId: number;
+};
+
+/**
+ * Options of the Sign-In with Ethereum (ERC-4361) messages signed to sign in with a wallet or link it.
+ */
+export type SiweOptions = {
+  /** Human-readable statement the user agrees to by signing. */
+  statement?: string;
+  /** Resources the user authorizes, e.g. ERC-5573 ReCap URIs. */
+  resources?: string[];
+  /** Milliseconds after which the message expires, sets `expirationTime`. */
+  expiresIn?: number;
+  /** Time before which the message is not valid. */
+  notBefore?: Date;
+  /** Identifier of the sign in request, e.g. to correlate it with a backend log. */
+  requestId?: string | (() => string);
+  /**
+   * Domain requesting the signature, must be the host of the current page.
+   *
+   * @defaultValue window.location.host
+   */
+  domain?: string;
+  /**
+   * URI of the resource the user signs in to, must be on the origin of the current page.
+   *
+   * @defaultValue window.location.origin
+   */
+  uri?: string;
+  /**
+   * Builds the whole message instead, e.g. to sign a message prepared by a backend. The other options are ignored.
+   */
+  buildMessage?: (params: SiweMessageParams) => string | Promise<string>;
+};
+
+const invalidOption = (message: string) => new OpenfortError(message, OpenfortErrorType.CONFIGURATION_ERROR);
+
+/**
+ * Builds the Sign-In with Ethereum message of a wallet.
+ *
+ * The domain and URI are checked against `window.location`, since wallets warn users about messages from other sites.
+ *
+ * @param params - Address, nonce and chain of the wallet.
+ * @param options - The `siwe` options of `OpenfortProvider`.
+ * @returns The message to sign.
+ * @throws {OpenfortError} If the domain or URI does not belong to the current page.
+ *
+ * @example
+ * ```ts
+ * const message = await createSIWEMessage(
+ *   { address, nonce, chainId: 1 },
+ *   { statement: 'I accept the Terms of Service', resources: ['urn:recap:eyJhdHQiOnt9fQ'], expiresIn: 5 * 60 * 1000 },
+ * );
+ * ```
+ */
+export const createSIWEMessage = async (params: SiweMessageParams, options: SiweOptions = {}): Promise<string> => {
+  if (options.buildMessage) return options.buildMessage(params);
+
+  const domain = options.domain ?? window.location.host;
+  if (domain !== window.location.host) {
+    throw invalidOption(`The SIWE domain ${domain} does not match the host of the page ${window.location.host}`);
+  }
+
+  const uri = options.uri ?? window.location.origin;
+  let uriOrigin: string;
+  try {
+    uriOrigin = new URL(uri).origin;
+  } catch {
+    throw invalidOption(`The SIWE URI ${uri} is not a valid URI`);
+  }
+  if (uriOrigin !== window.location.origin) {
+    throw invalidOption(`The SIWE URI ${uri} is not on the origin of the page ${window.location.origin}`);
+  }
+
+  const issuedAt = new Date();
+
+  return createSiweMessage({
+    domain,
+    address: params.address,
+    statement: options.statement ?? defaultStatement,
+    uri,
     version: "1",
-    chainId: chainId ?? sepolia.id,
-    nonce,
-  })
\ No newline at end of file
+    chainId: params.chainId,
+    nonce: params.nonce,
+    issuedAt,
+    expirationTime: options.expiresIn !== undefined ? new Date(issuedAt.getTime() + options.expiresIn) : undefined,
+    notBefore: options.notBefore,
+    requestId: typeof options.requestId === 'function' ? options.requestId() : options.requestId,
+    resources: options.resources,
+  });
+}
@@ -0,0 +1,160 @@
+import { isErc6492Signature, type Hex, type PublicClient } from "viem";
+import { OpenfortError, OpenfortErrorCode, OpenfortErrorType } from "../types";
+
+/**
+ * Kind of account that signed a SIWE message.
+ *
+ * - `eoa`: a private key, the signature is checked with `ecrecover`.
+ * - `contract`: a deployed smart-contract wallet such as a Safe, checked with EIP-1271 `isValidSignature`.
+ * - `counterfactual`: a smart-contract wallet not deployed yet, the signature is wrapped as ERC-6492 with the
+ *   deployment data.
+ */
+export type SiweSignerType = 'eoa' | 'contract' | 'counterfactual';
+
+export type SiweSignatureParams = {
+  address: `0x${string}`;
+  message: string;
+  signature: Hex;
+};
+
+export type WaitForSafeSignatureOptions = {
+  /**
+   * Milliseconds to wait for the other owners to sign.
+   *
+   * @defaultValue 600000
+   */
+  timeout?: number;
+  /**
+   * Milliseconds between two checks.
+   *
+   * @defaultValue 5000
+   */
+  interval?: number;
+  /** Stops waiting, e.g. when the modal is closed. */
+  signal?: AbortSignal;
+};
+
+export type PrepareSiweSignatureOptions = {
+  /** Whether the wallet is connected through the Safe connector. */
+  isSafe?: boolean;
+  /**
+   * Whether the connector can hold a smart-contract wallet. Connectors that only hold private keys, such as browser
+   * extensions, skip the on-chain check.
+   *
+   * @defaultValue true
+   */
+  canBeContract?: boolean;
+  /** Called when a Safe starts waiting for its other owners to sign the message. */
+  onWaitingForOwners?: () => void;
+} & WaitForSafeSignatureOptions;
+
+/**
+ * Returns the kind of account that signed a SIWE message.
+ *
+ * @param publicClient - Client of the chain of the message.
+ * @param params - Address and signature of the account.
+ */
+export async function getSiweSignerType(
+  publicClient: PublicClient,
+  { address, signature }: Pick<SiweSignatureParams, 'address' | 'signature'>,
+): Promise<SiweSignerType> {
+  if (isErc6492Signature(signature)) return 'counterfactual';
+
+  const code = await publicClient.getCode({ address });
+  return code && code !== '0x' ? 'contract' : 'eoa';
+}
+
+/**
+ * Checks a SIWE signature the way the backend does, including EIP-1271 and ERC-6492 signatures.
+ *
+ * @returns Whether the signature is valid, `false` when it cannot be checked.
+ */
+export async function verifySiweSignature(publicClient: PublicClient, params: SiweSignatureParams): Promise<boolean> {
+  try {
+    return await publicClient.verifyMessage(params);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Waits for a Safe with several owners to approve a message on chain.
+ *
+ * A Safe returns an empty signature when the other owners still have to sign, the message is then approved with
+ * `SignMessageLib` and `isValidSignature` accepts an empty signature for it.
+ *
+ * @returns Whether the message was approved before the timeout.
+ * @throws {OpenfortError} With the `USER_REJECTED` code when the signal is aborted.
+ */
+export async function waitForSafeSignature(
+  publicClient: PublicClient,
+  { address, message }: Omit<SiweSignatureParams, 'signature'>,
+  { timeout = 600_000, interval = 5_000, signal }: WaitForSafeSignatureOptions = {},
+): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+
+  while (Date.now() < deadline) {
+    if (signal?.aborted) throw abortedError();
+    if (await verifySiweSignature(publicClient, { address, message, signature: '0x' })) return true;
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(done, interval);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done);
+    });
+  }
+  return false;
+}
+
+const unverifiableError = (message: string) =>
+  new OpenfortError(message, OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.INVALID_SIGNATURE });
+
+const abortedError = () =>
+  new OpenfortError("Stopped waiting for the other owners of the Safe", OpenfortErrorType.AUTHENTICATION_ERROR, undefined, { code: OpenfortErrorCode.USER_REJECTED });
+
+/**
+ * Makes sure that the signature of a smart-contract wallet can be verified before it is sent to Openfort.
+ *
+ * Signatures of private keys are returned as is. Signatures of contract and counterfactual wallets are checked on
+ * chain, and a Safe that returns an empty signature is given time to collect the signatures of its other owners.
+ *
+ * @param publicClient - Client of the chain of the message.
+ * @param params - The signed message.
+ * @param options - What the connector can hold, and how long to wait for the other owners of a Safe.
+ * @returns The signature to send to Openfort.
+ * @throws {OpenfortError} With the `INVALID_SIGNATURE` code when the signature cannot be verified, or the
+ * `USER_REJECTED` code when waiting for the other owners is aborted.
+ *
+ * @example
+ * ```ts
+ * const signature = await signMessage(config, { message });
+ * const verifiable = await prepareSiweSignature(publicClient, { address, message, signature }, { isSafe: true });
+ * ```
+ */
+export async function prepareSiweSignature(
+  publicClient: PublicClient,
+  params: SiweSignatureParams,
+  { isSafe = false, canBeContract = true, onWaitingForOwners, ...waitOptions }: PrepareSiweSignatureOptions = {},
+): Promise<Hex> {
+  // Avoids a `getCode` request for every sign in with a browser extension
+  if (!canBeContract && !isErc6492Signature(params.signature)) return params.signature;
+
+  const signerType = await getSiweSignerType(publicClient, params);
+  if (signerType === 'eoa') return params.signature;
+
+  if (params.signature === '0x') {
+    if (!isSafe) throw unverifiableError("The wallet returned an empty signature");
+    onWaitingForOwners?.();
+    if (await waitForSafeSignature(publicClient, params, waitOptions)) return params.signature;
+    throw unverifiableError("The other owners of the Safe did not sign the message in time");
+  }
+
+  if (!(await verifySiweSignature(publicClient, params))) {
+    throw unverifiableError(`The ${signerType} wallet signature cannot be verified on chain ${publicClient.chain?.id ?? 'unknown'}`);
+  }
+  return params.signature;
+}
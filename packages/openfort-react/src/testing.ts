@@ -0,0 +1,6 @@
+// Test utilities, render components and hooks against an in-memory Openfort client without network access
+export { MockOpenfortProvider } from './openfort/testing/MockOpenfortProvider';
+export { asOpenfortClient, createFakeOpenfortClient } from './openfort/testing/fakeClient';
+export type { FakeOpenfortCall, FakeOpenfortClient, FakeOpenfortClientOptions } from './openfort/testing/fakeClient';
+export { fakeOpenfortConnector } from './openfort/testing/fakeConnector';
+export { createAccessToken, createAuthPlayerResponse, createAuthResponse, createEmbeddedAccount } from './openfort/testing/factories';
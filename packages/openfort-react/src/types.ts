@@ -1,4 +1,6 @@
 import { Languages as Lang } from './localizations';
+import { getOpenfortErrorCode, isRetryableErrorCode, OpenfortErrorCode } from './openfort/core/errors';
+import { getErrorStatus } from './openfort/core/retry';
 export type Languages = Lang;
 
 export type Theme =
@@ -30,18 +32,56 @@ export enum OpenfortErrorType {
   VALIDATION_ERROR = "VALIDATION_ERROR",
 }
 
+export { OpenfortErrorCode };
+
+const defaultErrorCodes: Record<OpenfortErrorType, OpenfortErrorCode> = {
+  [OpenfortErrorType.AUTHENTICATION_ERROR]: OpenfortErrorCode.UNKNOWN,
+  [OpenfortErrorType.WALLET_ERROR]: OpenfortErrorCode.UNKNOWN,
+  [OpenfortErrorType.CONFIGURATION_ERROR]: OpenfortErrorCode.CONFIGURATION_ERROR,
+  [OpenfortErrorType.VALIDATION_ERROR]: OpenfortErrorCode.INVALID_INPUT,
+};
+
 interface Data {
   [key: string]: any;
 }
+
+export type OpenfortErrorOptions = {
+  /** Overrides the code classified from the underlying error. */
+  code?: OpenfortErrorCode;
+};
+
+/**
+ * Error returned by every Openfort hook.
+ *
+ * Branch on `code` rather than on `message`, messages come from the API and may change.
+ *
+ * @example
+ * ```ts
+ * const { error } = await signInEmail({ email, password });
+ * if (error?.code === OpenfortErrorCode.INVALID_CREDENTIALS) showHint('Wrong email or password');
+ * else if (error?.retryable) retryLater();
+ * ```
+ */
 export class OpenfortError extends Error {
   type: OpenfortErrorType;
+  code: OpenfortErrorCode;
+  /** Whether the same request may succeed if it is sent again, e.g. after a network error. */
+  retryable: boolean;
+  /** Status of the failed HTTP response, when there was one. */
+  httpStatus?: number;
+  /** Underlying error thrown by openfort-js, axios or the wallet. */
+  cause?: unknown;
   data: Data;
-  constructor(message: string, type: OpenfortErrorType, data?: Data) {
+  constructor(message: string, type: OpenfortErrorType, data?: Data, { code }: OpenfortErrorOptions = {}) {
     if (data?.error instanceof OpenfortError) {
       super(data.error.message);
       this.data = data.error.data;
       this.type = data.error.type;
       this.name = data.error.name;
+      this.code = code ?? data.error.code;
+      this.retryable = isRetryableErrorCode(this.code);
+      this.httpStatus = data.error.httpStatus;
+      this.cause = data.error.cause;
       return;
     } else if (data?.error instanceof Error) {
       super(data.error.message);
@@ -51,6 +91,11 @@ export class OpenfortError extends Error {
     this.type = type;
     this.data = data || {};
     this.name = 'OpenfortError';
+    this.cause = data?.error;
+    // Some callers pass the failed response details, e.g. `{ status }`, instead of an underlying error
+    this.httpStatus = getErrorStatus(data?.error ?? data);
+    this.code = code ?? getOpenfortErrorCode(data?.error ?? data) ?? defaultErrorCodes[type];
+    this.retryable = isRetryableErrorCode(this.code);
   }
 }
 